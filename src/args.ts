@@ -0,0 +1,1013 @@
+// Command-line parsing and coercion of task arguments
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import type {
+  DiscoveredTasks,
+  ParamMeta,
+  ParamType,
+  TaskMeta,
+  TypeSchema,
+} from "./discovery";
+import { findType } from "./types";
+import type { RunOptions } from "./context";
+
+// Argument value that reads stdin: cat body.json | invt post -
+export const STDIN_VALUE = "-";
+
+// Whether the word after a flag is its value
+function isFlagValue(next: string | undefined): next is string {
+  return next !== undefined && (next === STDIN_VALUE || !next.startsWith("-"));
+}
+
+// Reads values given as @file or - (stdin): files are read relative to
+// the working directory, stdin only once per task, and one trailing
+// newline is dropped. "@@text" passes "@text" through.
+function valueReader(): (value: string) => string {
+  let stdinUsed = false;
+  const chomp = (text: string) => text.replace(/\r?\n$/, "");
+
+  return (value) => {
+    if (value === STDIN_VALUE) {
+      if (stdinUsed) {
+        throw new Error("Only one argument can be read from stdin (-)");
+      }
+      stdinUsed = true;
+      return chomp(readFileSync(0, "utf8"));
+    }
+    if (value.startsWith("@@")) return value.slice(1);
+    if (value.startsWith("@") && value.length > 1) {
+      const file = value.slice(1);
+      if (!existsSync(resolve(file))) {
+        throw new Error(`File not found: ${file}`);
+      }
+      try {
+        return chomp(readFileSync(resolve(file), "utf8"));
+      } catch (e) {
+        throw new Error(`Cannot read ${file}: ${(e as Error).message}`);
+      }
+    }
+    return value;
+  };
+}
+
+// Options given before the task name
+export interface GlobalOptions {
+  file?: string;
+  keepGoing?: boolean;
+  parallel?: boolean;
+  jobs?: number; // concurrency limit for --parallel
+  context: RunOptions; // --echo, --warn, --hide, --dry and --cwd, over any config
+}
+
+// Parsed CLI arguments
+export interface ParsedArgs {
+  positional: string[];
+  flags: Map<string, string | boolean>;
+}
+
+// Parse command to extract namespace path and method
+// e.g. "infra:aws.deploy" -> { namespace: "infra:aws", method: "deploy" }
+export function parseCommand(command: string): {
+  namespace: string | null;
+  method: string;
+} {
+  const segments = command.split(/[:.]/);
+  const method = segments.pop()!;
+
+  if (segments.length > 0) {
+    return { namespace: segments.join(":"), method };
+  }
+
+  return { namespace: null, method };
+}
+
+// Split leading global options from the task invocation
+export function parseGlobalArgs(args: string[]): {
+  options: GlobalOptions;
+  rest: string[];
+} {
+  const options: GlobalOptions = { context: {} };
+  let i = 0;
+
+  for (; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === "-f" || arg === "--file") {
+      const value = args[i + 1];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      options.file = value;
+      i++;
+    } else if (arg.startsWith("--file=")) {
+      options.file = arg.slice("--file=".length);
+    } else if (arg === "--keep-going") {
+      options.keepGoing = true;
+    } else if (["--echo", "--warn", "--hide", "--dry"].includes(arg)) {
+      options.context[arg.slice(2) as "echo" | "warn" | "hide" | "dry"] = true;
+    } else if (arg === "--cwd" || arg.startsWith("--cwd=")) {
+      const value = arg.includes("=")
+        ? arg.slice(arg.indexOf("=") + 1)
+        : args[++i];
+      if (!value) {
+        throw new Error("Missing value for --cwd");
+      }
+      const dir = resolve(value);
+      if (!existsSync(dir)) {
+        throw new Error(`Directory not found: ${value}`);
+      }
+      options.context.cwd = dir;
+    } else if (arg === "--parallel") {
+      options.parallel = true;
+    } else if (arg === "-j" || arg === "--jobs" || arg.startsWith("--jobs=")) {
+      const value = arg.includes("=")
+        ? arg.slice(arg.indexOf("=") + 1)
+        : args[++i];
+      const jobs = Number(value);
+      if (!Number.isInteger(jobs) || jobs < 1) {
+        throw new Error(
+          `Expected a positive integer for --jobs, got "${value ?? ""}"`,
+        );
+      }
+      options.jobs = jobs;
+    } else {
+      break;
+    }
+  }
+
+  return { options, rest: args.slice(i) };
+}
+
+// What coerceArg needs to know beyond the type; a ParamMeta will do
+export interface CoerceOptions {
+  name?: string; // starts error paths, e.g. "ports[1]" or "params.limit"
+  elementType?: ParamType;
+  choices?: (string | number)[];
+  names?: string[]; // typed for each choice, e.g. numeric enum members
+  schema?: TypeSchema; // checked against parsed JSON
+  exists?: boolean; // a path must name an existing file or directory
+  custom?: string; // name of a type registered with defineType
+}
+
+// Scalar types converted from their text form, also inside JSON values
+const CONVERTED_TYPES: ParamType[] = [
+  "date",
+  "url",
+  "bigint",
+  "duration",
+  "path",
+  "custom",
+];
+
+// Milliseconds per duration unit
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Parse "1500", "90s" or "1h30m" into milliseconds; NaN when malformed
+function parseDuration(value: string): number {
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (!/^(\d+(\.\d+)?(ms|s|m|h|d))+$/.test(value)) return NaN;
+
+  let total = 0;
+  for (const [, amount, , unit] of value.matchAll(
+    /(\d+(\.\d+)?)(ms|s|m|h|d)/g,
+  )) {
+    total += Number(amount) * DURATION_UNITS[unit];
+  }
+  return total;
+}
+
+// What is typed for each choice: enum member names where discovery found
+// them, otherwise the values themselves
+export function choiceNames(
+  choices: (string | number)[] = [],
+  names?: string[],
+): string[] {
+  return names ?? choices.map(String);
+}
+
+// The choice a JSON value names, by name or by value; undefined if none
+function findChoice(
+  value: unknown,
+  choices: (string | number)[],
+  names?: string[],
+): string | number | undefined {
+  const index = names?.indexOf(value as string) ?? -1;
+  if (index !== -1) return choices[index];
+  return choices.find((c) => c === value);
+}
+
+// Expected type for error messages
+function describeType(
+  type: ParamType,
+  choices: (string | number)[],
+  names?: string[],
+): string {
+  return type === "choice"
+    ? `one of ${choiceNames(choices, names).join(", ")}`
+    : type;
+}
+
+// Whether a parsed JSON value has the given type
+function matchesType(
+  value: unknown,
+  type: ParamType,
+  choices: (string | number)[],
+): boolean {
+  switch (type) {
+    case "string":
+    case "number":
+    case "boolean":
+      return typeof value === type;
+    case "date":
+    case "url":
+    case "bigint":
+    case "duration":
+    case "path":
+    case "custom":
+      return true; // checked by converting the value
+    case "choice":
+      return choices.includes(value as string | number);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+  }
+}
+
+// Path of an object field, e.g. "params.limit"
+function fieldPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// Convert a JSON value of a converted type: strings (and numbers, where
+// they make sense) go through coerceArg, converted values pass as is.
+// Custom types parse strings and numbers; anything else is taken as
+// already parsed.
+function convertValue(
+  value: unknown,
+  schema: TypeSchema,
+  path: string,
+): unknown {
+  const { type } = schema;
+  if (
+    (type === "date" && value instanceof Date) ||
+    (type === "url" && value instanceof URL) ||
+    (type === "bigint" && typeof value === "bigint") ||
+    (type === "custom" &&
+      typeof value !== "string" &&
+      typeof value !== "number")
+  ) {
+    return value;
+  }
+
+  const numeric = type !== "url" && type !== "path";
+  if (typeof value !== "string" && !(numeric && typeof value === "number")) {
+    throw new Error(`${path}: Expected ${type}, got ${JSON.stringify(value)}`);
+  }
+  try {
+    return coerceArg(String(value), type, { custom: schema.custom });
+  } catch (e) {
+    throw new Error(`${path}: ${(e as Error).message}`);
+  }
+}
+
+// Check a parsed JSON value against a schema, naming the path of the
+// first value that doesn't match; returns the value with date, URL,
+// bigint, duration and path values converted
+function checkValue(value: unknown, schema: TypeSchema, path: string): unknown {
+  if (value === null && schema.nullable) return value;
+  if (CONVERTED_TYPES.includes(schema.type)) {
+    return convertValue(value, schema, path);
+  }
+
+  const choices = schema.choices ?? [];
+  if (schema.type === "choice") {
+    const choice = findChoice(value, choices, schema.names);
+    if (choice !== undefined) return choice;
+  }
+  if (!matchesType(value, schema.type, choices)) {
+    throw new Error(
+      `${path}: Expected ${describeType(schema.type, choices, schema.names)}, got ${JSON.stringify(value)}`,
+    );
+  }
+
+  if (schema.items && Array.isArray(value)) {
+    return value.map((element, i) =>
+      checkValue(element, schema.items!, `${path}[${i}]`),
+    );
+  }
+
+  if (schema.properties) {
+    const object = { ...(value as Record<string, unknown>) };
+    for (const [key, field] of Object.entries(schema.properties)) {
+      if (object[key] === undefined) {
+        if (field.optional) continue;
+        throw new Error(
+          `${fieldPath(path, key)}: Missing required ${describeType(field.type, field.choices ?? [], field.names)}`,
+        );
+      }
+      object[key] = checkValue(object[key], field, fieldPath(path, key));
+    }
+    return object;
+  }
+
+  return value;
+}
+
+// Convert CLI arg to typed value
+export function coerceArg(
+  value: string,
+  type: ParamType,
+  options: CoerceOptions = {},
+): unknown {
+  const {
+    name = "",
+    elementType,
+    choices = [],
+    names,
+    schema,
+    exists,
+    custom,
+  } = options;
+
+  switch (type) {
+    case "choice": {
+      // Names first, so enum members can be typed; values still work
+      const index = choiceNames(choices, names).indexOf(value);
+      const choice =
+        index === -1
+          ? choices.find((c) => String(c) === value)
+          : choices[index];
+      if (choice === undefined) {
+        throw new Error(
+          `Expected ${describeType(type, choices, names)}, got "${value}"`,
+        );
+      }
+      return choice;
+    }
+    case "number": {
+      if (value === "") {
+        throw new Error(`Expected number, got ""`);
+      }
+      const n = Number(value);
+      if (Number.isNaN(n)) {
+        throw new Error(`Expected number, got "${value}"`);
+      }
+      return n;
+    }
+    case "boolean":
+      if (value === "true" || value === "1") return true;
+      if (value === "false" || value === "0") return false;
+      throw new Error(`Expected boolean, got "${value}"`);
+    case "date": {
+      // ISO 8601 text, or milliseconds since the epoch; shorter runs of
+      // digits such as 2024 are ISO years
+      const date = new Date(/^\d{9,}$/.test(value) ? Number(value) : value);
+      if (value === "" || Number.isNaN(date.getTime())) {
+        throw new Error(
+          `Expected date (e.g. 2024-01-31 or 2024-01-31T12:00:00Z), got "${value}"`,
+        );
+      }
+      return date;
+    }
+    case "url":
+      try {
+        return new URL(value);
+      } catch {
+        throw new Error(
+          `Expected URL (e.g. https://example.com), got "${value}"`,
+        );
+      }
+    case "bigint":
+      if (!/^-?\d+$/.test(value)) {
+        throw new Error(`Expected integer, got "${value}"`);
+      }
+      return BigInt(value);
+    case "duration": {
+      const ms = parseDuration(value);
+      if (Number.isNaN(ms)) {
+        throw new Error(
+          `Expected duration (e.g. 500ms, 30s, 5m or 1h30m), got "${value}"`,
+        );
+      }
+      return ms;
+    }
+    case "path": {
+      if (value === "") {
+        throw new Error(`Expected path, got ""`);
+      }
+      const resolved = resolve(value);
+      if (exists && !existsSync(resolved)) {
+        throw new Error(`Path not found: ${value}`);
+      }
+      return resolved;
+    }
+    case "custom": {
+      const registered = custom ? findType(custom) : undefined;
+      if (!registered) {
+        throw new Error(`Unknown type: ${custom ?? "(none)"}`);
+      }
+      try {
+        return registered.parse(value);
+      } catch (e) {
+        const reason = e instanceof Error && e.message ? `: ${e.message}` : "";
+        throw new Error(
+          `Expected ${registered.describe ?? custom}, got "${value}"${reason}`,
+        );
+      }
+    }
+    case "object":
+    case "array": {
+      try {
+        const parsed = JSON.parse(value);
+        if (type === "array" && !Array.isArray(parsed)) {
+          throw new Error(`Expected array, got ${typeof parsed}`);
+        }
+        if (
+          type === "object" &&
+          (typeof parsed !== "object" ||
+            Array.isArray(parsed) ||
+            parsed === null)
+        ) {
+          throw new Error(
+            `Expected object, got ${Array.isArray(parsed) ? "array" : typeof parsed}`,
+          );
+        }
+        if (schema) {
+          return checkValue(parsed, schema, name);
+        }
+        if (type === "array" && elementType) {
+          return checkValue(
+            parsed,
+            { type, items: { type: elementType, choices, names, custom } },
+            name,
+          );
+        }
+        return parsed;
+      } catch (e) {
+        if (e instanceof SyntaxError) {
+          throw new Error(`Invalid JSON: ${e.message}`);
+        }
+        throw e;
+      }
+    }
+    case "string":
+    default:
+      return value;
+  }
+}
+
+// Parse CLI arguments into flags and positional args
+export function parseCliArgs(
+  args: string[],
+  params: ParamMeta[] = [],
+): ParsedArgs {
+  const positional: string[] = [];
+  const flags = new Map<string, string | boolean>();
+  const switches = switchNames(params);
+  let stopFlagParsing = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (stopFlagParsing) {
+      positional.push(arg);
+      continue;
+    }
+
+    if (arg === "--") {
+      stopFlagParsing = true;
+      continue;
+    }
+
+    // --flag=value
+    if (arg.startsWith("--") && arg.includes("=")) {
+      const eqIdx = arg.indexOf("=");
+      const name = arg.slice(2, eqIdx);
+      const value = arg.slice(eqIdx + 1);
+      flags.set(name, value);
+      continue;
+    }
+
+    // --no-flag (boolean negation)
+    if (arg.startsWith("--no-")) {
+      const name = arg.slice(5);
+      flags.set(name, false);
+      continue;
+    }
+
+    // --flag (may be boolean or need next arg)
+    if (arg.startsWith("--")) {
+      const name = arg.slice(2);
+      const nextArg = args[i + 1];
+
+      // If next arg exists and doesn't look like a flag, use it as value
+      if (!switches.has(name) && isFlagValue(nextArg)) {
+        flags.set(name, nextArg);
+        i++; // Skip next arg
+      } else {
+        flags.set(name, true); // Boolean flag
+      }
+      continue;
+    }
+
+    // -f=value (short with equals)
+    if (arg.startsWith("-") && arg.length > 2 && arg.includes("=")) {
+      const eqIdx = arg.indexOf("=");
+      const name = arg.slice(1, eqIdx);
+      const value = arg.slice(eqIdx + 1);
+      flags.set(name, value);
+      continue;
+    }
+
+    // -fv: bundled short switches, the last of which may take a value
+    if (arg.startsWith("-") && isBundle(arg, params)) {
+      const names = arg.slice(1).split("");
+      for (const name of names.slice(0, -1)) {
+        flags.set(name, true);
+      }
+      const last = names[names.length - 1];
+      const nextArg = args[i + 1];
+
+      if (!switches.has(last) && isFlagValue(nextArg)) {
+        flags.set(last, nextArg);
+        i++;
+      } else {
+        flags.set(last, true);
+      }
+      continue;
+    }
+
+    // -f value or -f (boolean)
+    if (arg.startsWith("-") && arg.length === 2) {
+      const name = arg.slice(1);
+      const nextArg = args[i + 1];
+
+      if (!switches.has(name) && isFlagValue(nextArg)) {
+        flags.set(name, nextArg);
+        i++;
+      } else {
+        flags.set(name, true);
+      }
+      continue;
+    }
+
+    // Positional argument
+    positional.push(arg);
+  }
+
+  return { positional, flags };
+}
+
+// Boolean params are switches: their flags never take the next argument
+// as a value, and they are never filled from positionals
+export function isSwitch(param: ParamMeta): boolean {
+  return param.type === "boolean" && !param.isRest;
+}
+
+// Names (without dashes) of every switch flag, including boolean fields
+// of object params
+function switchNames(params: ParamMeta[]): Set<string> {
+  const names = new Set<string>();
+  for (const param of params) {
+    if (param.flag && isSwitch(param)) {
+      for (const flag of flagNames(param)) {
+        names.add(flag.replace(/^--?/, ""));
+      }
+    }
+    for (const field of objectFields(param)) {
+      if (field.schema.type === "boolean") names.add(field.flag.slice(2));
+    }
+  }
+  return names;
+}
+
+// Long, short and alias flags of a param
+export function flagNames(param: ParamMeta): string[] {
+  if (!param.flag) return [];
+  return [
+    param.flag.long,
+    ...(param.flag.short ? [param.flag.short] : []),
+    ...(param.flag.aliases ?? []),
+  ];
+}
+
+// Whether "-abc" is a bundle of short flags: every letter is a short flag
+// and all but the last are switches
+function isBundle(arg: string, params: ParamMeta[]): boolean {
+  if (arg.startsWith("--") || arg.length < 3 || arg.includes("=")) {
+    return false;
+  }
+  const shorts = params.flatMap((p) => (p.flag?.short ? [p.flag.short] : []));
+  const switches = switchNames(params);
+  const names = arg.slice(1).split("");
+  return (
+    names.every((name) => shorts.includes(`-${name}`)) &&
+    names.slice(0, -1).every((name) => switches.has(name))
+  );
+}
+
+// Whether a flag reads the next argument as its value
+function flagTakesValue(arg: string, params: ParamMeta[]): boolean {
+  if (arg === "-h" || arg === "--help") return false;
+  if (arg.includes("=") || arg.startsWith("--no-")) return false;
+
+  const switches = switchNames(params);
+  if (arg.startsWith("--")) return !switches.has(arg.slice(2));
+  if (arg.length === 2) return !switches.has(arg.slice(1));
+  return isBundle(arg, params) && !switches.has(arg[arg.length - 1]);
+}
+
+// Value given for a param through its long flag, short flag or an alias
+export function lookupFlag(
+  param: ParamMeta,
+  parsed: ParsedArgs,
+): string | boolean | undefined {
+  if (!param.flag) return undefined;
+
+  // Check long flag (without --)
+  const longName = param.flag.long.slice(2);
+  if (parsed.flags.has(longName)) {
+    return parsed.flags.get(longName);
+  }
+  // Check short flag (without -)
+  if (param.flag.short) {
+    const shortName = param.flag.short.slice(1);
+    if (parsed.flags.has(shortName)) {
+      return parsed.flags.get(shortName);
+    }
+  }
+  // Check aliases
+  for (const alias of param.flag.aliases ?? []) {
+    const aliasName = alias.slice(2);
+    if (parsed.flags.has(aliasName)) {
+      return parsed.flags.get(aliasName);
+    }
+  }
+
+  return undefined;
+}
+
+// A leaf field of an object param, settable with its own flag
+export interface ObjectField {
+  path: string[]; // e.g. ["filters", "owner"]
+  flag: string; // e.g. "--params.filters.owner", or "--filters.owner" if flattened
+  schema: TypeSchema;
+}
+
+// Leaf fields of an object param whose interface is known
+export function objectFields(param: ParamMeta): ObjectField[] {
+  if (param.type !== "object" || !param.schema?.properties) return [];
+
+  const fields: ObjectField[] = [];
+  const visit = (properties: Record<string, TypeSchema>, path: string[]) => {
+    for (const [key, schema] of Object.entries(properties)) {
+      const fieldPath = [...path, key];
+      if (schema.type === "object" && schema.properties) {
+        visit(schema.properties, fieldPath);
+        continue;
+      }
+      const name = param.flatten ? fieldPath : [param.name, ...fieldPath];
+      fields.push({ path: fieldPath, flag: `--${name.join(".")}`, schema });
+    }
+  };
+  visit(param.schema.properties, []);
+  return fields;
+}
+
+// Field flags given for an object param, e.g. --params.limit 5; dotted
+// flags that match no field are an error
+function givenFields(
+  param: ParamMeta,
+  parsed: ParsedArgs,
+): [ObjectField, string | boolean][] {
+  const fields = objectFields(param);
+  if (fields.length === 0) return [];
+
+  const given: [ObjectField, string | boolean][] = [];
+  for (const [name, value] of parsed.flags) {
+    const field = fields.find((f) => f.flag === `--${name}`);
+    if (field) {
+      given.push([field, value]);
+    } else if (!param.flatten && name.startsWith(`${param.name}.`)) {
+      throw new Error(`Unknown field: --${name}`);
+    }
+  }
+  return given;
+}
+
+// Build an object param from field flags, on top of any JSON given for
+// the whole param, and check it against the param's schema
+function buildObject(
+  param: ParamMeta,
+  json: string | boolean | undefined,
+  fields: [ObjectField, string | boolean][],
+  read: (value: string) => string,
+): Record<string, unknown> {
+  const object =
+    json === undefined
+      ? {}
+      : (coerceArg(
+          typeof json === "string" ? read(json) : String(json),
+          "object",
+        ) as Record<string, unknown>);
+
+  for (const [{ path, schema }, raw] of fields) {
+    const name = [param.name, ...path].join(".");
+    let value: unknown = raw;
+    if (typeof raw !== "boolean" || schema.type !== "boolean") {
+      try {
+        const text = typeof raw === "string" ? read(raw) : String(raw);
+        value = coerceArg(text, schema.type, {
+          name,
+          elementType: schema.items?.type,
+          choices: schema.choices ?? schema.items?.choices,
+          names: schema.names ?? schema.items?.names,
+          schema,
+          custom: schema.custom,
+        });
+      } catch (e) {
+        const message = (e as Error).message;
+        throw new Error(
+          message.startsWith(name) ? message : `${name}: ${message}`,
+        );
+      }
+    }
+
+    // Create intermediate objects, e.g. for --params.filters.owner
+    let target = object;
+    for (const key of path.slice(0, -1)) {
+      const next = target[key];
+      target[key] =
+        typeof next === "object" && next !== null && !Array.isArray(next)
+          ? next
+          : {};
+      target = target[key] as Record<string, unknown>;
+    }
+    target[path[path.length - 1]] = value;
+  }
+
+  return checkValue(object, param.schema!, param.name) as Record<
+    string,
+    unknown
+  >;
+}
+
+// Coerce one variadic argument to the rest param's element type
+function coerceRestArg(
+  value: string,
+  index: number,
+  param: ParamMeta,
+  read: (value: string) => string,
+): unknown {
+  try {
+    const text = read(value);
+    if (!param.elementType) return text;
+    return coerceArg(text, param.elementType, {
+      choices: param.choices,
+      names: param.names,
+      exists: param.exists,
+      custom: param.custom,
+    });
+  } catch (e) {
+    throw new Error(`${param.name}[${index}]: ${(e as Error).message}`);
+  }
+}
+
+// Value of a param's @env variable; empty counts as unset
+function lookupEnv(
+  param: ParamMeta,
+  env: Record<string, string | undefined>,
+): string | undefined {
+  if (!param.env) return undefined;
+  return env[param.env] || undefined;
+}
+
+// Resolve arguments from parsed CLI args using param metadata.
+// Precedence: flag, then positional, then @env variable, then default
+export function resolveArgs(
+  params: ParamMeta[],
+  parsed: ParsedArgs,
+  env: Record<string, string | undefined> = process.env,
+): unknown[] {
+  const result: unknown[] = [];
+  const usedPositional = new Set<number>();
+  const read = valueReader();
+
+  for (const param of params) {
+    // Handle rest parameters - collect all remaining positional args
+    if (param.isRest) {
+      const remaining = parsed.positional.filter(
+        (_, i) => !usedPositional.has(i),
+      );
+      result.push(
+        ...remaining.map((arg, i) => coerceRestArg(arg, i, param, read)),
+      );
+      break;
+    }
+
+    // Try to get value from flags first
+    let value = lookupFlag(param, parsed);
+
+    // Switches are set by flag or @env only; absent means their default,
+    // or false when they have none
+    if (isSwitch(param) && value === undefined) {
+      const envValue = lookupEnv(param, env);
+      if (envValue !== undefined) {
+        try {
+          result.push(coerceArg(envValue, param.type, param));
+        } catch (e) {
+          throw new Error(`${param.env}: ${(e as Error).message}`);
+        }
+      } else {
+        result.push(param.default !== undefined ? undefined : false);
+      }
+      continue;
+    }
+
+    // Object params can be built from field flags: --params.limit 5
+    const fields = givenFields(param, parsed);
+    if (fields.length > 0) {
+      result.push(buildObject(param, value, fields, read));
+      continue;
+    }
+
+    // Fall back to positional if no flag found
+    if (value === undefined) {
+      for (let i = 0; i < parsed.positional.length; i++) {
+        if (!usedPositional.has(i)) {
+          value = parsed.positional[i];
+          usedPositional.add(i);
+          break;
+        }
+      }
+    }
+
+    // Then the @env variable, taken literally
+    const envValue = value === undefined ? lookupEnv(param, env) : undefined;
+    if (envValue !== undefined) {
+      try {
+        result.push(coerceArg(envValue, param.type, param));
+      } catch (e) {
+        throw new Error(`${param.env}: ${(e as Error).message}`);
+      }
+      continue;
+    }
+
+    // Handle missing values
+    if (value === undefined) {
+      if (param.required) {
+        const hint = param.env ? ` or set ${param.env}` : "";
+        throw new Error(
+          `Missing required argument: <${param.name}> (${param.type})${hint}`,
+        );
+      }
+      // Optional param not provided: undefined lets its default apply
+      // while later params can still be given by flag
+      result.push(undefined);
+      continue;
+    }
+
+    // Coerce and add to result
+    // Boolean flags that are already boolean don't need coercion
+    if (typeof value === "boolean" && param.type === "boolean") {
+      result.push(value);
+    } else {
+      const text = typeof value === "string" ? read(value) : String(value);
+      result.push(coerceArg(text, param.type, param));
+    }
+  }
+
+  // Drop trailing skipped params
+  while (result.length > 0 && result[result.length - 1] === undefined) {
+    result.pop();
+  }
+  return result;
+}
+
+// Parse and coerce one task's raw arguments
+export function coerceTaskArgs(meta: TaskMeta, argv: string[]): unknown[] {
+  const parsed = parseCliArgs(argv, meta.params);
+
+  // If no param info (imported namespace), pass all args as strings
+  if (meta.params.length === 0 && argv.length > 0) {
+    return parsed.positional.map(valueReader());
+  }
+  return resolveArgs(meta.params, parsed);
+}
+
+// One task and its raw arguments from the command line
+export interface Invocation {
+  command: string;
+  args: string[];
+}
+
+// Explicitly ends one task's arguments: invt build --target=prod , deploy
+export const TASK_SEPARATOR = ",";
+
+// Metadata for a command, if discovery knows it
+export function findTaskMeta(
+  command: string,
+  discovered: DiscoveredTasks,
+): TaskMeta | undefined {
+  const { namespace, method } = parseCommand(command);
+  return namespace
+    ? discovered.namespaced.get(namespace)?.get(method)
+    : discovered.root.get(method);
+}
+
+// Whether a task would still read the next positional value as an argument:
+// it has unfilled required params, or a rest param that takes everything
+export function wantsMorePositional(
+  meta: TaskMeta | undefined,
+  args: string[],
+): boolean {
+  if (!meta) return false;
+  if (meta.params.some((p) => p.isRest)) return true;
+
+  const parsed = parseCliArgs(args, meta.params);
+  const given = (p: ParamMeta) =>
+    lookupFlag(p, parsed) !== undefined ||
+    lookupEnv(p, process.env) !== undefined ||
+    objectFields(p).some((f) => parsed.flags.has(f.flag.slice(2)));
+  const required = meta.params.filter((p) => p.required && !given(p)).length;
+  return parsed.positional.length < required;
+}
+
+// Split the command line into task invocations. A known task name starts a
+// new task once the current one has its required arguments; "," separates
+// tasks explicitly; everything after "--" belongs to the current task.
+export function splitInvocations(
+  args: string[],
+  discovered: DiscoveredTasks,
+): Invocation[] {
+  const invocations: Invocation[] = [];
+  let current: Invocation | null = null;
+  let stopSplitting = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (!current) {
+      current = { command: arg, args: [] };
+      invocations.push(current);
+      continue;
+    }
+
+    if (stopSplitting) {
+      current.args.push(arg);
+      continue;
+    }
+
+    if (arg === TASK_SEPARATOR) {
+      current = null;
+      continue;
+    }
+
+    if (arg === "--") {
+      stopSplitting = true;
+      current.args.push(arg);
+      continue;
+    }
+
+    // Flags keep the value parseCliArgs will read for them
+    if (arg.startsWith("-")) {
+      current.args.push(arg);
+      const next = args[i + 1];
+      const params = findTaskMeta(current.command, discovered)?.params ?? [];
+      if (
+        flagTakesValue(arg, params) &&
+        next !== TASK_SEPARATOR &&
+        isFlagValue(next)
+      ) {
+        current.args.push(next);
+        i++;
+      }
+      continue;
+    }
+
+    if (
+      findTaskMeta(arg, discovered) &&
+      !wantsMorePositional(
+        findTaskMeta(current.command, discovered),
+        current.args,
+      )
+    ) {
+      current = { command: arg, args: [] };
+      invocations.push(current);
+      continue;
+    }
+
+    current.args.push(arg);
+  }
+
+  return invocations;
+}
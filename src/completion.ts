@@ -0,0 +1,280 @@
+import {
+  choiceNames,
+  findTaskMeta,
+  flagNames,
+  isSwitch,
+  lookupFlag,
+  objectFields,
+  parseCliArgs,
+  parseGlobalArgs,
+  splitInvocations,
+  TASK_SEPARATOR,
+  wantsMorePositional,
+} from "./args";
+import type {
+  DiscoveredTasks,
+  ParamMeta,
+  ParamType,
+  TaskMeta,
+} from "./discovery";
+import { findType } from "./types";
+
+// Shell completion scripts. Each one calls back into the hidden
+// `invt --complete -- <words...> <current>` entry point, which prints one
+// candidate per line; the current (possibly empty) word is always last.
+// A candidate may be followed by a tab and a description: fish shows it
+// as is, zsh beside the candidate, and bash drops it.
+
+export const SHELLS = ["bash", "zsh", "fish"] as const;
+export type Shell = (typeof SHELLS)[number];
+
+const BASH = `# invt bash completion
+# Add to ~/.bashrc: eval "$(invt --completion bash)"
+_invt_completion() {
+  local line="\${COMP_LINE:0:COMP_POINT}"
+  local -a words
+  read -ra words <<< "$line"
+  [[ "$line" == *" " ]] && words+=("")
+
+  local cur="\${words[\${#words[@]}-1]}"
+  local IFS=$'\\n'
+  local -a candidates=( $(invt --complete -- "\${words[@]:1}" 2>/dev/null) )
+  candidates=( "\${candidates[@]%%$'\\t'*}" )
+
+  # bash splits words on ":", so drop the part of "ns:task" already typed
+  if [[ "$cur" == *:* && "$COMP_WORDBREAKS" == *:* ]]; then
+    local typed="\${cur%"\${cur##*:}"}"
+    candidates=( "\${candidates[@]#"$typed"}" )
+  fi
+
+  COMPREPLY=( "\${candidates[@]}" )
+}
+complete -o default -F _invt_completion invt
+`;
+
+const ZSH = `#compdef invt
+# invt zsh completion
+# Add to ~/.zshrc: eval "$(invt --completion zsh)"
+_invt() {
+  local -a lines names displays
+  local line name
+  lines=( \${(f)"$(invt --complete -- "\${(@)words[2,CURRENT]}" 2>/dev/null)"} )
+  for line in "\${lines[@]}"; do
+    name="\${line%%$'\\t'*}"
+    names+=( "$name" )
+    if [[ "$line" == *$'\\t'* ]]; then
+      displays+=( "$name  -- \${line#*$'\\t'}" )
+    else
+      displays+=( "$name" )
+    fi
+  done
+  if (( \${#names} )); then
+    compadd -Q -l -d displays -- "\${names[@]}"
+  else
+    _files
+  fi
+}
+compdef _invt invt
+`;
+
+const FISH = `# invt fish completion
+# Add to ~/.config/fish/config.fish: invt --completion fish | source
+function __invt_complete
+    set -l words (commandline -opc)
+    set -e words[1]
+    set -l cur (commandline -ct)
+    invt --complete -- $words "$cur" 2>/dev/null
+end
+complete -c invt -f -a '(__invt_complete)'
+complete -c invt -s f -l file -r -F -d 'Tasks file, directory or package'
+`;
+
+// Completion script for a shell
+export function completionScript(shell: Shell): string {
+  switch (shell) {
+    case "bash":
+      return BASH;
+    case "zsh":
+      return ZSH;
+    case "fish":
+      return FISH;
+  }
+}
+
+export function isShell(value: string | undefined): value is Shell {
+  return SHELLS.includes(value as Shell);
+}
+
+// Global options offered by shell completion
+const GLOBAL_FLAGS = [
+  "-h",
+  "--help",
+  "-l",
+  "--list",
+  "--version",
+  "--lint",
+  "-f",
+  "--file",
+  "--parallel",
+  "-j",
+  "--jobs",
+  "--keep-going",
+  "--echo",
+  "--warn",
+  "--hide",
+  "--dry",
+  "--cwd",
+  "--completion",
+  "--json",
+];
+
+// A completion candidate; the description is shown by shells that can
+export interface Completion {
+  value: string;
+  description?: string;
+}
+
+// A candidate with its description, when there is one
+function described(value: string, description?: string): Completion {
+  return description ? { value, description } : { value };
+}
+
+// Every command name discovery knows, namespaced ones as "ns:method"
+function allTaskNames(discovered: DiscoveredTasks): Completion[] {
+  const names: Completion[] = [];
+  for (const [name, meta] of discovered.root) {
+    names.push(described(name, meta.description));
+  }
+  for (const [ns, methods] of discovered.namespaced) {
+    for (const [name, meta] of methods) {
+      names.push(described(`${ns}:${name}`, meta.description));
+    }
+  }
+  return names;
+}
+
+// The param a task flag refers to, e.g. "-n" or "--name"
+function paramForFlag(meta: TaskMeta, arg: string): ParamMeta | undefined {
+  return meta.params.find(
+    (p) =>
+      p.flag &&
+      (p.flag.long === arg ||
+        p.flag.short === arg ||
+        p.flag.aliases?.includes(arg)),
+  );
+}
+
+// Known values for a type, offered by completion
+function valueCandidates(
+  type: ParamType | undefined,
+  choices: (string | number)[] = [],
+  names?: string[],
+  custom?: string,
+): string[] {
+  if (type === "boolean") return ["true", "false"];
+  if (type === "choice") return choiceNames(choices, names);
+  if (type === "custom" && custom) return findType(custom)?.complete?.() ?? [];
+  return [];
+}
+
+// Known values for a param; each variadic argument is one element
+function paramCandidates(param: ParamMeta | undefined): string[] {
+  const type = param?.isRest ? param.elementType : param?.type;
+  return valueCandidates(type, param?.choices, param?.names, param?.custom);
+}
+
+// Completion candidates for the last word of a partial command line;
+// `words` are the words after `invt`, the last one being completed
+export function completeWords(
+  words: string[],
+  discovered: DiscoveredTasks,
+): Completion[] {
+  const current = words[words.length - 1] ?? "";
+  const matching = (candidates: (string | Completion)[]) => {
+    const found = new Map<string, Completion>();
+    for (const candidate of candidates) {
+      const c =
+        typeof candidate === "string" ? { value: candidate } : candidate;
+      if (c.value.startsWith(current) && !found.has(c.value)) {
+        found.set(c.value, c);
+      }
+    }
+    return [...found.values()];
+  };
+
+  let rest: string[];
+  try {
+    ({ rest } = parseGlobalArgs(words.slice(0, -1)));
+  } catch {
+    return []; // completing the value of -f or -j
+  }
+
+  // Global options, then the first task
+  if (rest.length === 0) {
+    if (current.startsWith("-")) return matching(GLOBAL_FLAGS);
+    return matching(allTaskNames(discovered));
+  }
+
+  if (rest[0] === "--completion") {
+    return rest.length === 1 ? matching([...SHELLS]) : [];
+  }
+  if (rest[0].startsWith("-")) return [];
+
+  // After "," a new task starts
+  if (rest[rest.length - 1] === TASK_SEPARATOR) {
+    return matching(allTaskNames(discovered));
+  }
+
+  const invocations = splitInvocations(rest, discovered);
+  const { command, args } = invocations[invocations.length - 1];
+  const meta = findTaskMeta(command, discovered);
+  if (!meta || args.includes("--")) return [];
+
+  // Value for the flag just before the current word; switches take none
+  const previous = args[args.length - 1];
+  if (previous?.startsWith("-") && !previous.includes("=")) {
+    const param = paramForFlag(meta, previous);
+    if (param && !isSwitch(param)) return matching(paramCandidates(param));
+
+    const field = meta.params
+      .flatMap(objectFields)
+      .find((f) => f.flag === previous);
+    if (field && field.schema.type !== "boolean") {
+      return matching(
+        valueCandidates(
+          field.schema.type,
+          field.schema.choices,
+          field.schema.names,
+          field.schema.custom,
+        ),
+      );
+    }
+  }
+
+  if (current.startsWith("-")) {
+    const flags = meta.params.flatMap((p) =>
+      p.flag
+        ? [
+            ...flagNames(p).map((flag) => described(flag, p.description)),
+            ...(isSwitch(p)
+              ? [described(`--no-${p.name}`, p.description)]
+              : []),
+            ...objectFields(p).map((f) => f.flag),
+          ]
+        : [],
+    );
+    return matching([...flags, "-h", "--help"]);
+  }
+
+  // Values for the next positional param, then tasks that could follow
+  const parsed = parseCliArgs(args, meta.params);
+  const open = meta.params.filter(
+    (p) => p.isRest || (!isSwitch(p) && lookupFlag(p, parsed) === undefined),
+  );
+  const next = open[Math.min(parsed.positional.length, open.length - 1)];
+  const candidates: (string | Completion)[] = paramCandidates(next);
+  if (!wantsMorePositional(meta, args)) {
+    candidates.push(...allTaskNames(discovered));
+  }
+  return matching(candidates);
+}
@@ -0,0 +1,177 @@
+// Configuration files: Context defaults and project keys for tasks
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join, resolve } from "path";
+import { coerceArg } from "./args";
+import type { Config } from "./context";
+
+const SYSTEM_DIR = "/etc/invoket";
+const PACKAGE_FILE = "package.json";
+const JSON_FILE = "invoket.json";
+const TS_FILE = "invoket.config.ts";
+
+type RunOptionType = "boolean" | "string" | "object of strings";
+
+// Run options a config can set, with the type each must have
+const RUN_OPTIONS: Record<string, RunOptionType> = {
+  echo: "boolean",
+  warn: "boolean",
+  hide: "boolean",
+  stream: "boolean",
+  dry: "boolean",
+  cwd: "string",
+  env: "object of strings",
+};
+
+// Run options that only make sense per call, so configs may not set them
+const RESERVED = ["prefix"];
+
+// Where loadConfig looks, lowest precedence first
+export interface ConfigLocations {
+  system?: string; // default /etc/invoket
+  user?: string; // default $XDG_CONFIG_HOME/invoket or ~/.config/invoket
+  project?: string; // usually the directory holding the tasks
+  env?: Record<string, string | undefined>; // for INVOKET_RUN_* variables
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasType(value: unknown, type: RunOptionType): boolean {
+  if (type === "object of strings") {
+    return (
+      isPlainObject(value) &&
+      Object.values(value).every((v) => typeof v === "string")
+    );
+  }
+  return typeof value === type;
+}
+
+// Merge one config over another; nested objects merge key by key
+function mergeConfig(
+  base: Record<string, unknown>,
+  over: Record<string, unknown>,
+): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(over)) {
+    const current = merged[key];
+    merged[key] =
+      isPlainObject(current) && isPlainObject(value)
+        ? mergeConfig(current, value)
+        : value;
+  }
+  return merged;
+}
+
+// Check the run options of a config read from `source`, resolving a
+// relative cwd against `dir`
+function checkConfig(
+  config: unknown,
+  source: string,
+  dir: string,
+): Record<string, unknown> {
+  if (!isPlainObject(config)) {
+    throw new Error(`${source}: Expected an object`);
+  }
+  for (const key of RESERVED) {
+    if (config[key] !== undefined) {
+      throw new Error(`${source}: ${key}: Cannot be set in configuration`);
+    }
+  }
+  for (const [key, type] of Object.entries(RUN_OPTIONS)) {
+    if (config[key] !== undefined && !hasType(config[key], type)) {
+      throw new Error(
+        `${source}: ${key}: Expected ${type}, got ${JSON.stringify(config[key])}`,
+      );
+    }
+  }
+  if (typeof config.cwd === "string") {
+    return { ...config, cwd: resolve(dir, config.cwd) };
+  }
+  return config;
+}
+
+function readJson(file: string): unknown {
+  try {
+    return JSON.parse(readFileSync(file, "utf8"));
+  } catch (e) {
+    throw new Error(`${file}: ${(e as Error).message}`);
+  }
+}
+
+// Configs in one directory: the "invoket" section of package.json, then
+// invoket.json, then the default export of invoket.config.ts
+async function readConfigDir(dir: string): Promise<Record<string, unknown>[]> {
+  const layers: Record<string, unknown>[] = [];
+
+  const pkgFile = join(dir, PACKAGE_FILE);
+  if (existsSync(pkgFile)) {
+    const pkg = readJson(pkgFile);
+    if (isPlainObject(pkg) && pkg.invoket !== undefined) {
+      layers.push(checkConfig(pkg.invoket, `${pkgFile} (invoket)`, dir));
+    }
+  }
+
+  const jsonFile = join(dir, JSON_FILE);
+  if (existsSync(jsonFile)) {
+    layers.push(checkConfig(readJson(jsonFile), jsonFile, dir));
+  }
+
+  const tsFile = join(dir, TS_FILE);
+  if (existsSync(tsFile)) {
+    const mod = await import(tsFile);
+    layers.push(checkConfig(mod.default ?? {}, tsFile, dir));
+  }
+
+  return layers;
+}
+
+// Run options from INVOKET_RUN_ECHO, INVOKET_RUN_CWD and so on
+function envConfig(
+  env: Record<string, string | undefined>,
+): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+  for (const [key, type] of Object.entries(RUN_OPTIONS)) {
+    if (type === "object of strings") continue;
+    const name = `INVOKET_RUN_${key.toUpperCase()}`;
+    const value = env[name];
+    if (!value) continue;
+    try {
+      config[key] = type === "boolean" ? coerceArg(value, "boolean") : value;
+    } catch (e) {
+      throw new Error(`${name}: ${(e as Error).message}`);
+    }
+  }
+  if (typeof config.cwd === "string") config.cwd = resolve(config.cwd);
+  return config;
+}
+
+// Load configuration from the system, user and project directories, then
+// INVOKET_RUN_* environment variables, each overriding the one before.
+// Run options (echo, warn, hide, stream, dry, cwd, env) become Context
+// defaults; any other keys except prefix are passed through for tasks to
+// read from c.config.
+export async function loadConfig(
+  locations: ConfigLocations = {},
+): Promise<Config> {
+  const env = locations.env ?? process.env;
+  const userDir =
+    locations.user ??
+    (env.XDG_CONFIG_HOME
+      ? join(env.XDG_CONFIG_HOME, "invoket")
+      : join(env.HOME ?? homedir(), ".config", "invoket"));
+
+  let config: Record<string, unknown> = {};
+  for (const dir of [
+    locations.system ?? SYSTEM_DIR,
+    userDir,
+    locations.project,
+  ]) {
+    if (!dir) continue;
+    for (const layer of await readConfigDir(dir)) {
+      config = mergeConfig(config, layer);
+    }
+  }
+  return mergeConfig(config, envConfig(env)) as Config;
+}
@@ -15,13 +15,63 @@ export interface RunOptions {
   hide?: boolean;
   stream?: boolean;
   cwd?: string;
+  env?: Record<string, string>; // added to the environment of commands
+  dry?: boolean; // print commands instead of running them
+  prefix?: string; // label output lines, e.g. "[build] ..."
+}
+
+// Task parameter types with their own coercion: a Duration is given as
+// "500ms", "30s" or "1h30m" and arrives in milliseconds; a Path arrives
+// resolved against the directory invt was run from
+export type Duration = number;
+export type Path = string;
+
+export { defineType, type CustomType } from "./types";
+
+// Context defaults and any other keys a project configures for its tasks
+export type Config = RunOptions & Record<string, unknown>;
+
+export interface ParallelOptions {
+  limit?: number; // maximum number of functions running at once
+}
+
+// Prefix every line of a chunk of output, keeping the trailing newline
+export function prefixLines(text: string, prefix: string): string {
+  const lines = text.split("\n");
+  const trailing = lines[lines.length - 1] === "" ? lines.pop() : undefined;
+  return (
+    lines.map((line) => `[${prefix}] ${line}`).join("\n") +
+    (trailing !== undefined ? "\n" : "")
+  );
+}
+
+// Copy a child process stream to an output, prefixing complete lines
+async function pipePrefixed(
+  stream: ReadableStream<Uint8Array>,
+  out: NodeJS.WriteStream,
+  prefix: string,
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  for await (const chunk of stream) {
+    pending += decoder.decode(chunk, { stream: true });
+    const end = pending.lastIndexOf("\n");
+    if (end !== -1) {
+      out.write(prefixLines(pending.slice(0, end + 1), prefix));
+      pending = pending.slice(end + 1);
+    }
+  }
+
+  pending += decoder.decode();
+  if (pending) out.write(prefixLines(pending, prefix) + "\n");
 }
 
 export class Context {
   cwd: string;
-  private options: RunOptions;
+  private options: Config;
 
-  constructor(options: RunOptions = {}) {
+  constructor(options: Config = {}) {
     this.cwd = options.cwd ?? process.cwd();
     this.options = options;
   }
@@ -30,7 +80,7 @@ export class Context {
     return this.cwd;
   }
 
-  get config(): RunOptions {
+  get config(): Config {
     return { ...this.options };
   }
 
@@ -39,26 +89,52 @@ export class Context {
 
   async run(command: string, options?: RunOptions): Promise<RunResult> {
     const opts = { ...this.options, ...options };
+    if (this.options.env && options?.env) {
+      opts.env = { ...this.options.env, ...options.env };
+    }
+    // this.cwd already starts at the configured cwd and follows cd()
+    const cwd = options?.cwd ?? this.cwd;
+    const env = opts.env ? { ...process.env, ...opts.env } : undefined;
+
+    if (opts.dry) {
+      this.printDry(`$ ${command}`, { ...opts, cwd });
+      return { stdout: "", stderr: "", code: 0, ok: true, failed: false };
+    }
 
     if (opts.echo) {
-      console.log(`$ ${command}`);
+      // Straight to stdout like command output, which is labelled already
+      const line = `$ ${command}\n`;
+      process.stdout.write(opts.prefix ? prefixLines(line, opts.prefix) : line);
     }
 
     let result;
-    if (opts.stream) {
+    if (opts.stream && opts.prefix) {
+      // Stream output in real-time, labelling each line as it arrives
+      const proc = spawn(["sh", "-c", command], {
+        cwd,
+        env,
+        stdout: "pipe",
+        stderr: "pipe",
+      });
+      await Promise.all([
+        pipePrefixed(proc.stdout, process.stdout, opts.prefix),
+        pipePrefixed(proc.stderr, process.stderr, opts.prefix),
+      ]);
+      const exitCode = await proc.exited;
+      result = { exitCode, stdout: Buffer.from(""), stderr: Buffer.from("") };
+    } else if (opts.stream) {
       // Stream output in real-time using Bun.spawn with inherited stdio
       const proc = spawn(["sh", "-c", command], {
-        cwd: opts.cwd ?? this.cwd,
+        cwd,
+        env,
         stdout: "inherit",
         stderr: "inherit",
       });
       const exitCode = await proc.exited;
       result = { exitCode, stdout: Buffer.from(""), stderr: Buffer.from("") };
     } else {
-      result = await $`sh -c ${command}`
-        .cwd(opts.cwd ?? this.cwd)
-        .nothrow()
-        .quiet();
+      const shell = $`sh -c ${command}`.cwd(cwd).nothrow().quiet();
+      result = await (env ? shell.env(env) : shell);
     }
 
     const runResult: RunResult = {
@@ -79,17 +155,69 @@ export class Context {
 
     // When streaming, output already went to terminal; otherwise write captured output
     if (!opts.stream && !opts.hide) {
-      if (runResult.stdout) process.stdout.write(runResult.stdout);
-      if (runResult.stderr) process.stderr.write(runResult.stderr);
+      const label = (text: string) =>
+        opts.prefix ? prefixLines(text, opts.prefix) : text;
+      if (runResult.stdout) process.stdout.write(label(runResult.stdout));
+      if (runResult.stderr) process.stderr.write(label(runResult.stderr));
     }
 
     return runResult;
   }
 
+  // Describe an action skipped by a dry run, with the directory and any
+  // extra environment it would have used
+  private printDry(action: string, opts: RunOptions): void {
+    const lines = [`[dry] ${action}`, `[dry]   cwd: ${opts.cwd ?? this.cwd}`];
+    for (const [name, value] of Object.entries(opts.env ?? {})) {
+      lines.push(`[dry]   env: ${name}=${value}`);
+    }
+    const text = lines.join("\n") + "\n";
+    process.stdout.write(opts.prefix ? prefixLines(text, opts.prefix) : text);
+  }
+
   async sudo(command: string, options?: RunOptions): Promise<RunResult> {
     return this.run(`sudo ${command}`, options);
   }
 
+  // Run functions concurrently, at most `limit` at a time. Every function
+  // runs even if another fails; failures are then thrown as an AggregateError.
+  async parallel<T>(
+    fns: (() => T | Promise<T>)[],
+    options: ParallelOptions = {},
+  ): Promise<T[]> {
+    const limit = options.limit ?? Math.max(fns.length, 1);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Invalid parallel limit: ${limit}`);
+    }
+
+    const results: T[] = new Array(fns.length);
+    const errors: unknown[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < fns.length) {
+        const i = next++;
+        try {
+          results[i] = await fns[i]();
+        } catch (e) {
+          errors.push(e);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(limit, fns.length) }, worker),
+    );
+
+    if (errors.length > 0) {
+      throw new AggregateError(
+        errors,
+        `${errors.length} of ${fns.length} parallel functions failed`,
+      );
+    }
+    return results;
+  }
+
   async *cd(directory: string): AsyncGenerator<void, void, unknown> {
     const previous = this.cwd;
     this.cwd = resolve(this.cwd, directory);
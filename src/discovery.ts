@@ -0,0 +1,972 @@
+import { existsSync, readFileSync, statSync } from "fs";
+import { dirname, isAbsolute, join, resolve } from "path";
+import ts from "typescript";
+import { findType } from "./types";
+
+// Supported parameter types
+export type ParamType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "object"
+  | "array"
+  | "choice"
+  | "date"
+  | "url"
+  | "bigint"
+  | "duration"
+  | "path"
+  | "custom"; // registered with defineType
+
+// Flag metadata for a parameter
+export interface FlagMeta {
+  long: string; // e.g., "--name"
+  short?: string; // e.g., "-n"
+  aliases?: string[]; // e.g., ["--environment"]
+}
+
+// Parameter metadata extracted from TypeScript
+export interface ParamMeta {
+  name: string;
+  type: ParamType;
+  required: boolean;
+  isRest: boolean;
+  elementType?: ParamType; // element type of an array or rest param
+  choices?: (string | number)[]; // allowed values of a "choice" param or element
+  names?: string[]; // what is typed for each choice, e.g. numeric enum members
+  schema?: TypeSchema; // fields of an object param, or of array elements
+  flatten?: boolean; // @flatten: fields are set as --field instead of --param.field
+  env?: string; // @env: environment variable used when no flag or positional is given
+  exists?: boolean; // @exists: a path param must name an existing file or directory
+  custom?: string; // name of a type registered with defineType
+  default?: string; // default value expression as written in source
+  description?: string; // from @param name description
+  flag?: FlagMeta;
+}
+
+// Structure of a type as far as discovery can resolve it: object fields
+// come from interfaces, type aliases and type literals
+export interface TypeSchema {
+  type: ParamType;
+  choices?: (string | number)[]; // values of a "choice"
+  names?: string[]; // typed for each choice, when numeric enum members
+  items?: TypeSchema; // array elements
+  properties?: Record<string, TypeSchema>; // object fields, when known
+  optional?: boolean; // object field declared with "?"
+  nullable?: boolean; // union with null
+  custom?: string; // name of a type registered with defineType
+}
+
+export interface TaskMeta {
+  description: string;
+  params: ParamMeta[];
+  details?: string; // full description, when it runs past the first line
+  jsdoc?: string; // full JSDoc text, including tags
+  depends?: string[]; // tasks to run first (@depends / @pre)
+  post?: string[]; // tasks to run afterwards (@post)
+}
+
+export interface DiscoveredTasks {
+  root: Map<string, TaskMeta>;
+  namespaced: Map<string, Map<string, TaskMeta>>; // "infra:aws" -> method -> meta
+  classDoc: string | null;
+}
+
+// Parse source text into a TypeScript AST
+function parseSource(source: string, fileName = "tasks.ts"): ts.SourceFile {
+  return ts.createSourceFile(
+    fileName,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TS,
+  );
+}
+
+// Collect top-level class declarations by name
+function collectClasses(
+  sourceFile: ts.SourceFile,
+): Map<string, ts.ClassDeclaration> {
+  const classes = new Map<string, ts.ClassDeclaration>();
+  for (const statement of sourceFile.statements) {
+    if (ts.isClassDeclaration(statement) && statement.name) {
+      classes.set(statement.name.text, statement);
+    }
+  }
+  return classes;
+}
+
+// Raw text of the JSDoc block closest to a node, without delimiters
+function getJSDocText(node: ts.Node): string {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  const doc = docs[docs.length - 1];
+  if (!doc) return "";
+  return doc
+    .getText()
+    .replace(/^\/\*\*/, "")
+    .replace(/\*\/$/, "");
+}
+
+// One of the tags invoket reads, in the middle of a line, e.g.
+// "Test @depends build", and the rest of the line. Other @words such as
+// "@here" are left in the description.
+const INLINE_TAG =
+  /\s+@(?:depends|pre|post|flag|env|param|flatten|exists)\b.*$/;
+
+// First non-tag line of a JSDoc block, up to any inline tag
+function extractDescription(jsdoc: string): string {
+  const line = jsdoc
+    .split("\n")
+    .map((line) => line.replace(/^\s*\*?\s*/, "").trim())
+    .filter((line) => line && !line.startsWith("@"))[0];
+  return line?.replace(INLINE_TAG, "") ?? "";
+}
+
+// Every description line before the first tag, or undefined when the
+// description is a single line
+function extractDetails(jsdoc: string): string | undefined {
+  const lines: string[] = [];
+  for (const line of cleanJSDoc(jsdoc).split("\n")) {
+    if (line.startsWith("@")) break;
+    const text = line.replace(INLINE_TAG, "");
+    lines.push(text);
+    if (text !== line) break;
+  }
+  const details = lines.join("\n").trim();
+  return details.includes("\n") ? details : undefined;
+}
+
+// JSDoc text without leading "*" markers and surrounding blank lines
+function cleanJSDoc(jsdoc: string): string {
+  return jsdoc
+    .split("\n")
+    .map((line) => line.replace(/^\s*\*? ?/, "").trimEnd())
+    .join("\n")
+    .trim();
+}
+
+// Name of a class member, or null for computed and #private names
+function getMemberName(member: ts.ClassElement): string | null {
+  if (!member.name) return null;
+  if (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)) {
+    return member.name.text;
+  }
+  return null;
+}
+
+// Whether a member is reachable as a task (not private, protected or static)
+function isPublicInstanceMember(member: ts.ClassElement): boolean {
+  const flags = ts.getCombinedModifierFlags(member as ts.Declaration);
+  return (
+    (flags &
+      (ts.ModifierFlags.Private |
+        ts.ModifierFlags.Protected |
+        ts.ModifierFlags.Static)) ===
+    0
+  );
+}
+
+// Name of the base class when it is a plain identifier
+function getBaseClassName(cls: ts.ClassDeclaration): string | null {
+  for (const clause of cls.heritageClauses ?? []) {
+    if (clause.token !== ts.SyntaxKind.ExtendsKeyword) continue;
+    const expr = clause.types[0]?.expression;
+    if (expr && ts.isIdentifier(expr)) return expr.text;
+  }
+  return null;
+}
+
+// Extract @flag annotations from JSDoc
+export function extractFlagAnnotations(
+  jsdoc: string,
+): Map<string, { short?: string; aliases?: string[] }> {
+  const flags = new Map<string, { short?: string; aliases?: string[] }>();
+
+  // Match @flag paramName -s --alias1 --alias2
+  const flagPattern = /@flag\s+(\w+)\s+([^\n@]*)/g;
+  let match;
+
+  while ((match = flagPattern.exec(jsdoc)) !== null) {
+    const [, paramName, flagsStr] = match;
+    const parts = flagsStr.trim().split(/\s+/);
+
+    let short: string | undefined;
+    const aliases: string[] = [];
+
+    for (const part of parts) {
+      if (part.startsWith("--")) {
+        aliases.push(part);
+      } else if (part.startsWith("-") && part.length === 2) {
+        short = part;
+      }
+    }
+
+    flags.set(paramName, {
+      short: short,
+      aliases: aliases.length > 0 ? aliases : undefined,
+    });
+  }
+
+  return flags;
+}
+
+// Extract @env annotations from JSDoc: @env paramName VAR_NAME
+function extractEnvBindings(jsdoc: string): Map<string, string> {
+  const bindings = new Map<string, string>();
+  const pattern = /@env\s+(\w+)\s+(\w+)/g;
+  let match;
+
+  while ((match = pattern.exec(jsdoc)) !== null) {
+    bindings.set(match[1], match[2]);
+  }
+
+  return bindings;
+}
+
+// Extract @param descriptions from JSDoc, accepting the usual forms:
+// @param name text, @param {type} name - text, @param [name=default] text.
+// Lines after the tag up to the next tag continue the description.
+function extractParamDescriptions(jsdoc: string): Map<string, string> {
+  const descriptions = new Map<string, string>();
+  const pattern =
+    /^@param\s+(?:\{[^}]*\}\s*)?\[?(\w+)[^\s\]]*\]?\s*(?:-\s+)?(.*)$/;
+  let current: { name: string; lines: string[] } | null = null;
+
+  const finish = () => {
+    const text = current?.lines.join(" ").replace(/\s+/g, " ").trim();
+    if (current && text) descriptions.set(current.name, text);
+    current = null;
+  };
+
+  for (const line of cleanJSDoc(jsdoc).split("\n")) {
+    if (line.startsWith("@")) {
+      finish();
+      const match = line.match(pattern);
+      if (match) current = { name: match[1], lines: [match[2]] };
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+  finish();
+
+  return descriptions;
+}
+
+// Extract names listed after JSDoc tags, e.g. @depends build test
+function extractTagNames(jsdoc: string, tags: string[]): string[] {
+  const pattern = new RegExp(`@(?:${tags.join("|")})\\s+([^\\n@]*)`, "g");
+  const refs: string[] = [];
+  let match;
+
+  while ((match = pattern.exec(jsdoc)) !== null) {
+    for (const name of match[1].trim().split(/[\s,]+/)) {
+      if (name && !refs.includes(name)) refs.push(name);
+    }
+  }
+
+  return refs;
+}
+
+// Value of a string or number literal type, e.g. "dev" or -1
+function literalValue(node: ts.TypeNode): string | number | undefined {
+  if (!ts.isLiteralTypeNode(node)) return undefined;
+  const literal = node.literal;
+  if (ts.isStringLiteral(literal)) return literal.text;
+  if (ts.isNumericLiteral(literal)) return Number(literal.text);
+  if (
+    ts.isPrefixUnaryExpression(literal) &&
+    literal.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(literal.operand)
+  ) {
+    return -Number(literal.operand.text);
+  }
+  return undefined;
+}
+
+// An enum declaration as a choice: the members' values, with the member
+// names typed for numeric members; string members are typed as their
+// values. Null when a member is computed.
+function enumSchema(decl: ts.EnumDeclaration): TypeSchema | null {
+  const choices: (string | number)[] = [];
+  const names: string[] = [];
+  let next = 0;
+
+  for (const member of decl.members) {
+    const init = member.initializer;
+    const name =
+      ts.isIdentifier(member.name) || ts.isStringLiteral(member.name)
+        ? member.name.text
+        : null;
+    if (init && ts.isStringLiteral(init)) {
+      choices.push(init.text);
+      names.push(init.text);
+      continue;
+    }
+    if (init && ts.isNumericLiteral(init)) {
+      next = Number(init.text);
+    } else if (init) {
+      return null;
+    }
+    choices.push(next);
+    names.push(name ?? String(next));
+    next++;
+  }
+
+  return choices.some((choice) => typeof choice === "number")
+    ? { type: "choice", choices, names }
+    : { type: "choice", choices };
+}
+
+// Combine the choices of union members, e.g. an enum and a literal;
+// names are kept when any member has them
+function mergeChoices(schemas: TypeSchema[]): TypeSchema {
+  const choices: (string | number)[] = [];
+  const names: string[] = [];
+  for (const schema of schemas) {
+    schema.choices!.forEach((choice, i) => {
+      if (choices.includes(choice)) return;
+      choices.push(choice);
+      names.push(schema.names?.[i] ?? String(choice));
+    });
+  }
+  return schemas.some((schema) => schema.names)
+    ? { type: "choice", choices, names }
+    : { type: "choice", choices };
+}
+
+type TypeDeclaration =
+  ts.EnumDeclaration | ts.TypeAliasDeclaration | ts.InterfaceDeclaration;
+
+// Parse a TypeScript file from disk, or null if it can't be read
+function parseFile(path: string): ts.SourceFile | null {
+  try {
+    return parseSource(readFileSync(path, "utf8"), path);
+  } catch {
+    return null;
+  }
+}
+
+// File a relative import refers to, e.g. "./types" -> /project/types.ts;
+// package imports are not followed
+function resolveImport(
+  sourceFile: ts.SourceFile,
+  specifier: ts.Expression | undefined,
+): string | null {
+  if (!specifier || !ts.isStringLiteral(specifier)) return null;
+  if (!specifier.text.startsWith(".") || !isAbsolute(sourceFile.fileName)) {
+    return null;
+  }
+
+  const base = resolve(dirname(sourceFile.fileName), specifier.text);
+  const candidates = [
+    base,
+    `${base}.ts`,
+    `${base}.tsx`,
+    join(base, "index.ts"),
+    base.replace(/\.js$/, ".ts"),
+  ];
+  return (
+    candidates.find((path) => existsSync(path) && statSync(path).isFile()) ??
+    null
+  );
+}
+
+// Enum, type alias or interface with this name, declared in the file or
+// imported into it from a relative path
+function findTypeDeclaration(
+  sourceFile: ts.SourceFile,
+  name: string,
+  visited: Set<string> = new Set(),
+): TypeDeclaration | undefined {
+  if (visited.has(sourceFile.fileName)) return undefined;
+  visited.add(sourceFile.fileName);
+
+  for (const statement of sourceFile.statements) {
+    if (
+      (ts.isEnumDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isInterfaceDeclaration(statement)) &&
+      statement.name.text === name
+    ) {
+      return statement;
+    }
+  }
+
+  // import { Name } from "./x", import { Other as Name } from "./x",
+  // export { Name } from "./x" and export * from "./x"
+  for (const statement of sourceFile.statements) {
+    let imported: string | undefined;
+    let specifier: ts.Expression | undefined;
+    if (ts.isImportDeclaration(statement)) {
+      specifier = statement.moduleSpecifier;
+      const bindings = statement.importClause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings)) {
+        const element = bindings.elements.find((e) => e.name.text === name);
+        imported = element && (element.propertyName?.text ?? name);
+      }
+    } else if (ts.isExportDeclaration(statement)) {
+      specifier = statement.moduleSpecifier;
+      const clause = statement.exportClause;
+      if (!clause) {
+        imported = name;
+      } else if (ts.isNamedExports(clause)) {
+        const element = clause.elements.find((e) => e.name.text === name);
+        imported = element && (element.propertyName?.text ?? name);
+      }
+    }
+    if (!imported) continue;
+
+    const path = resolveImport(sourceFile, specifier);
+    const file = path ? parseFile(path) : null;
+    const decl = file && findTypeDeclaration(file, imported, visited);
+    if (decl) return decl;
+  }
+
+  return undefined;
+}
+
+// Name of an interface or type literal member, or null if computed
+function getPropertyName(name: ts.PropertyName): string | null {
+  if (
+    ts.isIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name)
+  ) {
+    return name.text;
+  }
+  return null;
+}
+
+// Whether a schema says anything beyond "some object"; fields of
+// unresolved types are left unchecked
+function isResolved(schema: TypeSchema): boolean {
+  return schema.type !== "object" || schema.properties !== undefined;
+}
+
+// Schemas of the properties declared by interface or type literal members
+function resolveMembers(
+  members: ts.NodeArray<ts.TypeElement>,
+  seen: Set<ts.Node>,
+): Record<string, TypeSchema> {
+  const properties: Record<string, TypeSchema> = {};
+
+  for (const member of members) {
+    if (!ts.isPropertySignature(member) || !member.type) continue;
+    const name = getPropertyName(member.name);
+    if (name === null) continue;
+    if (
+      member.type.kind === ts.SyntaxKind.AnyKeyword ||
+      member.type.kind === ts.SyntaxKind.UnknownKeyword
+    ) {
+      continue;
+    }
+
+    const schema = resolveTypeNode(member.type, seen);
+    if (!isResolved(schema)) continue;
+    if (member.questionToken) schema.optional = true;
+    properties[name] = schema;
+  }
+
+  return properties;
+}
+
+// Schema of an interface, including the interfaces it extends
+function resolveInterface(
+  decl: ts.InterfaceDeclaration,
+  seen: Set<ts.Node>,
+): TypeSchema {
+  let properties: Record<string, TypeSchema> = {};
+
+  for (const clause of decl.heritageClauses ?? []) {
+    for (const base of clause.types) {
+      if (!ts.isIdentifier(base.expression)) continue;
+      const baseDecl = findTypeDeclaration(
+        decl.getSourceFile(),
+        base.expression.text,
+      );
+      if (!baseDecl || seen.has(baseDecl)) continue;
+      const resolved = resolveDeclaration(baseDecl, seen);
+      properties = { ...properties, ...resolved.properties };
+    }
+  }
+
+  return {
+    type: "object",
+    properties: { ...properties, ...resolveMembers(decl.members, seen) },
+  };
+}
+
+// Schema of an enum, type alias or interface declaration
+function resolveDeclaration(
+  decl: TypeDeclaration,
+  seen: Set<ts.Node>,
+): TypeSchema {
+  const inner = new Set([...seen, decl]);
+  if (ts.isTypeAliasDeclaration(decl)) {
+    return resolveTypeNode(decl.type, inner);
+  }
+  if (ts.isInterfaceDeclaration(decl)) {
+    return resolveInterface(decl, inner);
+  }
+  return enumSchema(decl) ?? { type: "string" };
+}
+
+// Types coerced from their text form, recognised by name unless the tasks
+// file declares its own; Duration and Path come from invoket/context
+const NAMED_TYPES: Record<string, ParamType> = {
+  Date: "date",
+  URL: "url",
+  Duration: "duration",
+  Path: "path",
+};
+
+// Map a type annotation onto a schema; `seen` holds the declarations
+// being resolved, so recursive types stop at an unchecked object
+function resolveTypeNode(
+  node: ts.TypeNode,
+  seen: Set<ts.Node> = new Set(),
+): TypeSchema {
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return { type: "string" };
+    case ts.SyntaxKind.NumberKeyword:
+      return { type: "number" };
+    case ts.SyntaxKind.BooleanKeyword:
+      return { type: "boolean" };
+    case ts.SyntaxKind.BigIntKeyword:
+      return { type: "bigint" };
+    case ts.SyntaxKind.TupleType:
+      return { type: "array" };
+  }
+
+  if (ts.isArrayTypeNode(node)) {
+    return resolveArrayType(node.elementType, seen);
+  }
+
+  if (ts.isParenthesizedTypeNode(node)) {
+    return resolveTypeNode(node.type, seen);
+  }
+
+  // readonly string[]
+  if (ts.isTypeOperatorNode(node)) {
+    return resolveTypeNode(node.type, seen);
+  }
+
+  // "dev" or 42
+  const value = literalValue(node);
+  if (value !== undefined) {
+    return { type: "choice", choices: [value] };
+  }
+
+  // { query: string; limit?: number }
+  if (ts.isTypeLiteralNode(node)) {
+    return { type: "object", properties: resolveMembers(node.members, seen) };
+  }
+
+  if (ts.isTypeReferenceNode(node)) {
+    const name = node.typeName.getText();
+    if (name === "Array" || name === "ReadonlyArray") {
+      return resolveArrayType(node.typeArguments?.[0], seen);
+    }
+
+    // Registered with defineType, which wins over any declaration
+    if (findType(name)) {
+      return { type: "custom", custom: name };
+    }
+
+    // enum Env { ... }, type Env = "dev" | "prod" or interface Params { ... }
+    const decl = findTypeDeclaration(node.getSourceFile(), name);
+    if (decl && !seen.has(decl)) {
+      return resolveDeclaration(decl, seen);
+    }
+    if (!decl && Object.hasOwn(NAMED_TYPES, name)) {
+      return { type: NAMED_TYPES[name] };
+    }
+    return { type: "object" };
+  }
+
+  // A & B merges the properties of both
+  if (ts.isIntersectionTypeNode(node)) {
+    const parts = node.types.map((t) => resolveTypeNode(t, seen));
+    if (parts.every((p) => p.type === "object" && p.properties)) {
+      return {
+        type: "object",
+        properties: Object.assign({}, ...parts.map((p) => p.properties)),
+      };
+    }
+  }
+
+  if (ts.isUnionTypeNode(node)) {
+    // string | undefined behaves like string; string | null also allows null
+    const isNull = (t: ts.TypeNode) =>
+      ts.isLiteralTypeNode(t) && t.literal.kind === ts.SyntaxKind.NullKeyword;
+    const members = node.types.filter(
+      (t) => t.kind !== ts.SyntaxKind.UndefinedKeyword && !isNull(t),
+    );
+    if (members.length === 1) {
+      const schema = resolveTypeNode(members[0], seen);
+      if (node.types.some(isNull)) schema.nullable = true;
+      return schema;
+    }
+
+    // true | false behaves like boolean
+    if (
+      members.every(
+        (t) =>
+          ts.isLiteralTypeNode(t) &&
+          (t.literal.kind === ts.SyntaxKind.TrueKeyword ||
+            t.literal.kind === ts.SyntaxKind.FalseKeyword),
+      )
+    ) {
+      return { type: "boolean" };
+    }
+
+    // "dev" | "staging" | "prod", or a mix of literals and enums
+    const resolved = members.map((t) => resolveTypeNode(t, seen));
+    if (resolved.every((r) => r.type === "choice")) {
+      return mergeChoices(resolved);
+    }
+  }
+
+  return { type: "object" };
+}
+
+// An array, with its element schema unless elements are any or unknown
+function resolveArrayType(
+  element: ts.TypeNode | undefined,
+  seen: Set<ts.Node>,
+): TypeSchema {
+  if (
+    !element ||
+    element.kind === ts.SyntaxKind.AnyKeyword ||
+    element.kind === ts.SyntaxKind.UnknownKeyword
+  ) {
+    return { type: "array" };
+  }
+  return { type: "array", items: resolveTypeNode(element, seen) };
+}
+
+// Whether a schema describes object fields anywhere, so parsed JSON
+// needs checking beyond its top-level type
+function hasProperties(schema: TypeSchema | undefined): boolean {
+  if (!schema) return false;
+  return schema.properties !== undefined || hasProperties(schema.items);
+}
+
+// Infer a ParamType from a default value when no annotation is present
+function inferFromInitializer(init: ts.Expression | undefined): ParamType {
+  if (!init) return "string";
+  if (ts.isNumericLiteral(init)) return "number";
+  if (ts.isBigIntLiteral(init)) return "bigint";
+  if (ts.isPrefixUnaryExpression(init) && ts.isNumericLiteral(init.operand)) {
+    return "number";
+  }
+  if (ts.isPrefixUnaryExpression(init) && ts.isBigIntLiteral(init.operand)) {
+    return "bigint";
+  }
+  if (
+    init.kind === ts.SyntaxKind.TrueKeyword ||
+    init.kind === ts.SyntaxKind.FalseKeyword
+  ) {
+    return "boolean";
+  }
+  if (ts.isArrayLiteralExpression(init)) return "array";
+  if (ts.isObjectLiteralExpression(init)) return "object";
+  return "string";
+}
+
+// Copy what coercion needs from a resolved type onto a param
+function applySchema(param: ParamMeta, schema: TypeSchema): ParamMeta {
+  const choices = schema.choices ?? schema.items?.choices;
+  const names = schema.names ?? schema.items?.names;
+  const custom = schema.custom ?? schema.items?.custom;
+  if (schema.items) param.elementType = schema.items.type;
+  if (choices) param.choices = choices;
+  if (names) param.names = names;
+  if (custom) param.custom = custom;
+  if (hasProperties(schema)) param.schema = schema;
+  return param;
+}
+
+// Convert parameter declarations (after the context) into ParamMeta array
+function parseParams(
+  declarations: readonly ts.ParameterDeclaration[],
+  jsdoc: string,
+): ParamMeta[] {
+  const flagAnnotations = extractFlagAnnotations(jsdoc);
+  const flattened = extractTagNames(jsdoc, ["flatten"]);
+  const mustExist = extractTagNames(jsdoc, ["exists"]);
+  const envBindings = extractEnvBindings(jsdoc);
+  const descriptions = extractParamDescriptions(jsdoc);
+  const params: ParamMeta[] = [];
+
+  for (const decl of declarations) {
+    const name = decl.name.getText();
+    const resolved: TypeSchema = decl.type
+      ? resolveTypeNode(decl.type)
+      : { type: inferFromInitializer(decl.initializer) };
+    const { type } = resolved;
+
+    if (decl.dotDotDotToken) {
+      // Rest params don't get flags
+      const param: ParamMeta = { name, type, required: false, isRest: true };
+      if (descriptions.has(name)) param.description = descriptions.get(name);
+      if (mustExist.includes(name)) param.exists = true;
+      params.push(applySchema(param, resolved));
+      break;
+    }
+
+    // Build flag metadata
+    const annotation = flagAnnotations.get(name);
+    const flag: FlagMeta = {
+      long: `--${name}`,
+      short: annotation?.short,
+      aliases: annotation?.aliases,
+    };
+
+    // Boolean params are switches, false unless given
+    const required =
+      !decl.initializer && !decl.questionToken && type !== "boolean";
+    const param: ParamMeta = { name, type, required, isRest: false, flag };
+    applySchema(param, resolved);
+    if (flattened.includes(name) && param.schema) param.flatten = true;
+    if (envBindings.has(name)) param.env = envBindings.get(name);
+    if (mustExist.includes(name)) param.exists = true;
+    if (decl.initializer) param.default = decl.initializer.getText();
+    if (descriptions.has(name)) param.description = descriptions.get(name);
+    params.push(param);
+  }
+
+  return params;
+}
+
+// Function implementing a task member: a method with a body, or a
+// property initialised with an arrow function or function expression
+function getTaskFunction(
+  member: ts.ClassElement,
+): ts.SignatureDeclarationBase | null {
+  if (ts.isMethodDeclaration(member)) {
+    return member.body ? member : null;
+  }
+  if (ts.isPropertyDeclaration(member) && member.initializer) {
+    const init = member.initializer;
+    if (ts.isArrowFunction(init) || ts.isFunctionExpression(init)) {
+      return init;
+    }
+  }
+  return null;
+}
+
+// Build TaskMeta for a task member and its implementing function
+function memberToTaskMeta(
+  member: ts.ClassElement,
+  fn: ts.SignatureDeclarationBase,
+): TaskMeta {
+  const jsdoc = getJSDocText(member);
+  const meta: TaskMeta = {
+    description: extractDescription(jsdoc),
+    // First parameter receives the Context
+    params: parseParams(fn.parameters.slice(1), jsdoc),
+  };
+
+  const details = extractDetails(jsdoc);
+  if (details) meta.details = details;
+
+  const text = cleanJSDoc(jsdoc);
+  if (text) meta.jsdoc = text;
+
+  const depends = extractTagNames(jsdoc, ["depends", "pre"]);
+  const post = extractTagNames(jsdoc, ["post"]);
+  if (depends.length > 0) meta.depends = depends;
+  if (post.length > 0) meta.post = post;
+
+  return meta;
+}
+
+// Extract task methods from a class, including same-file base classes
+function extractMethodsFromClass(
+  cls: ts.ClassDeclaration,
+  classes: Map<string, ts.ClassDeclaration>,
+  seen: Set<ts.ClassDeclaration> = new Set(),
+): Map<string, TaskMeta> {
+  const methods = new Map<string, TaskMeta>();
+  if (seen.has(cls)) return methods;
+  seen.add(cls);
+
+  for (const member of cls.members) {
+    const fn = getTaskFunction(member);
+    if (!fn) continue;
+
+    const methodName = getMemberName(member);
+    if (!methodName || methodName.startsWith("_")) continue;
+    if (!isPublicInstanceMember(member)) continue;
+
+    methods.set(methodName, memberToTaskMeta(member, fn));
+  }
+
+  // Inherited methods come after the class's own methods
+  const baseName = getBaseClassName(cls);
+  const base = baseName ? classes.get(baseName) : undefined;
+  if (base) {
+    for (const [name, meta] of extractMethodsFromClass(base, classes, seen)) {
+      if (!methods.has(name)) methods.set(name, meta);
+    }
+  }
+
+  return methods;
+}
+
+// Find `prop = new ClassName()` namespace properties on a class
+function extractNamespaceProps(
+  cls: ts.ClassDeclaration,
+): { propName: string; className: string }[] {
+  const props: { propName: string; className: string }[] = [];
+
+  for (const member of cls.members) {
+    if (!ts.isPropertyDeclaration(member) || !member.initializer) continue;
+
+    const propName = getMemberName(member);
+    if (!propName || !isPublicInstanceMember(member)) continue;
+
+    const init = member.initializer;
+    if (ts.isNewExpression(init) && ts.isIdentifier(init.expression)) {
+      props.push({ propName, className: init.expression.text });
+    }
+  }
+
+  return props;
+}
+
+// Recursively collect namespace classes under a class, keyed by path
+function collectNamespaces(
+  cls: ts.ClassDeclaration,
+  classes: Map<string, ts.ClassDeclaration>,
+  namespaced: Map<string, Map<string, TaskMeta>>,
+  prefix: string,
+  ancestors: Set<ts.ClassDeclaration>,
+): void {
+  for (const { propName, className } of extractNamespaceProps(cls)) {
+    // Skip private namespaces
+    if (propName.startsWith("_")) continue;
+
+    const nsClass = classes.get(className);
+    if (!nsClass || ancestors.has(nsClass)) continue;
+
+    const path = prefix ? `${prefix}:${propName}` : propName;
+    const nsMethods = extractMethodsFromClass(nsClass, classes);
+    if (nsMethods.size > 0) {
+      namespaced.set(path, nsMethods);
+    }
+
+    ancestors.add(nsClass);
+    collectNamespaces(nsClass, classes, namespaced, path, ancestors);
+    ancestors.delete(nsClass);
+  }
+}
+
+// Discover all tasks including namespaced ones (source parsing only);
+// with the file's path, types imported from relative paths are resolved
+export function discoverAllTasks(
+  source: string,
+  path?: string,
+): DiscoveredTasks {
+  const sourceFile = parseSource(source, path);
+  const classes = collectClasses(sourceFile);
+  const root = new Map<string, TaskMeta>();
+  const namespaced = new Map<string, Map<string, TaskMeta>>();
+
+  const tasksClass = classes.get("Tasks");
+  if (!tasksClass) return { root, namespaced, classDoc: null };
+
+  for (const [name, meta] of extractMethodsFromClass(tasksClass, classes)) {
+    root.set(name, meta);
+  }
+
+  collectNamespaces(tasksClass, classes, namespaced, "", new Set([tasksClass]));
+
+  const classDoc = extractDescription(getJSDocText(tasksClass)) || null;
+
+  return { root, namespaced, classDoc };
+}
+
+// List tasks whose JSDoc has no description, as CLI command names
+export function findUndocumentedTasks(discovered: DiscoveredTasks): string[] {
+  const undocumented: string[] = [];
+
+  for (const [name, meta] of discovered.root) {
+    if (!meta.description) undocumented.push(name);
+  }
+  for (const [ns, methods] of discovered.namespaced) {
+    for (const [name, meta] of methods) {
+      if (!meta.description) undocumented.push(`${ns}:${name}`);
+    }
+  }
+
+  return undocumented;
+}
+
+// Discover methods from runtime instance (for imported namespaces)
+export function discoverRuntimeNamespaces(
+  instance: any,
+  discovered: DiscoveredTasks,
+  prefix: string = "",
+  visited: Set<object> = new Set([instance]),
+): void {
+  // Find namespace properties on the instance
+  for (const propName of Object.getOwnPropertyNames(instance)) {
+    // Skip private or non-objects
+    if (propName.startsWith("_")) continue;
+
+    const prop = instance[propName];
+    if (!prop || typeof prop !== "object" || Array.isArray(prop)) continue;
+    if (visited.has(prop)) continue;
+    visited.add(prop);
+
+    const path = prefix ? `${prefix}:${propName}` : propName;
+
+    // Namespaces found in source keep their typed metadata
+    if (!discovered.namespaced.has(path)) {
+      const methods = discoverRuntimeMethods(prop);
+      if (methods.size > 0) {
+        discovered.namespaced.set(path, methods);
+      }
+    }
+
+    // Descend into sub-namespaces
+    discoverRuntimeNamespaces(prop, discovered, path, visited);
+  }
+}
+
+// Collect callable methods from an object's own function properties (arrow
+// functions) and its prototype chain
+function discoverRuntimeMethods(prop: any): Map<string, TaskMeta> {
+  const methods = new Map<string, TaskMeta>();
+
+  for (const name of Object.getOwnPropertyNames(prop)) {
+    if (!name.startsWith("_") && typeof prop[name] === "function") {
+      methods.set(name, { description: "", params: [] });
+    }
+  }
+
+  let proto = Object.getPrototypeOf(prop);
+
+  while (proto && proto !== Object.prototype) {
+    for (const methodName of Object.getOwnPropertyNames(proto)) {
+      if (
+        methodName === "constructor" ||
+        methodName.startsWith("_") ||
+        typeof prop[methodName] !== "function"
+      ) {
+        continue;
+      }
+
+      // No type info for imported methods - treat args as strings
+      if (!methods.has(methodName)) {
+        methods.set(methodName, { description: "", params: [] });
+      }
+    }
+    proto = Object.getPrototypeOf(proto);
+  }
+
+  return methods;
+}
@@ -0,0 +1,62 @@
+// Library entry point: the engine behind `invt`, for embedding invoket in
+// other tools and for calling tasks from tests
+export {
+  Context,
+  type Config,
+  type Duration,
+  type ParallelOptions,
+  type Path,
+  type RunOptions,
+  type RunResult,
+} from "./context";
+export { defineType, findType, type CustomType } from "./types";
+export { loadConfig, type ConfigLocations } from "./config";
+export {
+  discoverAllTasks,
+  discoverRuntimeNamespaces,
+  extractFlagAnnotations,
+  findUndocumentedTasks,
+  type DiscoveredTasks,
+  type FlagMeta,
+  type ParamMeta,
+  type ParamType,
+  type TaskMeta,
+  type TypeSchema,
+} from "./discovery";
+export {
+  coerceArg,
+  coerceTaskArgs,
+  isSwitch,
+  objectFields,
+  parseCliArgs,
+  parseCommand,
+  resolveArgs,
+  splitInvocations,
+  TASK_SEPARATOR,
+  type CoerceOptions,
+  type Invocation,
+  type ObjectField,
+  type ParsedArgs,
+} from "./args";
+export {
+  executeTask,
+  planTasks,
+  resolveTask,
+  runTask,
+  type PlannedStep,
+  type ResolvedTask,
+} from "./runner";
+export {
+  findTasksPath,
+  loadTasks,
+  resolveTasksPath,
+  type LoadedTasks,
+} from "./loader";
+export {
+  buildManifest,
+  MANIFEST_SCHEMA_VERSION,
+  taskToManifest,
+  type Manifest,
+  type TaskHelpManifest,
+  type TaskManifest,
+} from "./manifest";
@@ -0,0 +1,114 @@
+import { existsSync, readdirSync, statSync } from "fs";
+import { basename, dirname, extname, join, resolve } from "path";
+import { discoverAllTasks, type DiscoveredTasks } from "./discovery";
+
+const TASKS_FILE = "tasks.ts";
+const TASKS_DIR = "tasks";
+const INDEX_FILE = "index.ts";
+
+// Tasks loaded from a file or directory, before runtime discovery
+export interface LoadedTasks {
+  path: string;
+  instance: any;
+  discovered: DiscoveredTasks;
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// Search upward from a directory for tasks.ts or a tasks/ directory
+export function findTasksPath(start: string): string | null {
+  let dir = resolve(start);
+
+  while (true) {
+    const file = join(dir, TASKS_FILE);
+    if (existsSync(file)) return file;
+
+    const tasksDir = join(dir, TASKS_DIR);
+    if (isDirectory(tasksDir)) return tasksDir;
+
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+// Resolve an explicit --file or INVOKET_TASKS value: a path or a package
+export function resolveTasksPath(spec: string, cwd: string): string {
+  const candidate = resolve(cwd, spec);
+  if (existsSync(candidate)) return candidate;
+
+  try {
+    return Bun.resolveSync(spec, cwd);
+  } catch {
+    throw new Error(`Tasks file not found: ${spec}`);
+  }
+}
+
+// Import a tasks module and instantiate its Tasks class
+async function loadTasksFile(
+  file: string,
+): Promise<{ instance: any; discovered: DiscoveredTasks }> {
+  const source = await Bun.file(file).text();
+  const { Tasks } = await import(file);
+  if (typeof Tasks !== "function") {
+    throw new Error(`${file} does not export a Tasks class`);
+  }
+
+  return {
+    instance: new Tasks(),
+    discovered: discoverAllTasks(source, file),
+  };
+}
+
+// Load a tasks/ directory: index.ts holds root tasks, every other
+// file becomes a namespace named after the file
+async function loadTasksDir(dir: string): Promise<LoadedTasks> {
+  const indexPath = join(dir, INDEX_FILE);
+  const root = existsSync(indexPath) ? await loadTasksFile(indexPath) : null;
+
+  const instance = root?.instance ?? Object.create(null);
+  const discovered: DiscoveredTasks = root?.discovered ?? {
+    root: new Map(),
+    namespaced: new Map(),
+    classDoc: null,
+  };
+
+  const files = readdirSync(dir)
+    .filter(
+      (name) =>
+        extname(name) === ".ts" &&
+        name !== INDEX_FILE &&
+        !name.endsWith(".d.ts") &&
+        !name.startsWith("_"),
+    )
+    .sort();
+
+  for (const name of files) {
+    const ns = basename(name, ".ts");
+    const loaded = await loadTasksFile(join(dir, name));
+
+    instance[ns] = loaded.instance;
+    if (loaded.discovered.root.size > 0) {
+      discovered.namespaced.set(ns, loaded.discovered.root);
+    }
+    for (const [path, methods] of loaded.discovered.namespaced) {
+      discovered.namespaced.set(`${ns}:${path}`, methods);
+    }
+  }
+
+  return { path: dir, instance, discovered };
+}
+
+// Load tasks from a tasks file or a tasks/ directory
+export async function loadTasks(path: string): Promise<LoadedTasks> {
+  if (isDirectory(path)) {
+    return loadTasksDir(path);
+  }
+  return { path, ...(await loadTasksFile(path)) };
+}
@@ -0,0 +1,131 @@
+import type {
+  DiscoveredTasks,
+  ParamMeta,
+  ParamType,
+  TaskMeta,
+  TypeSchema,
+} from "./discovery";
+
+// Machine-readable description of discovered tasks, printed by
+// `invt --list --json` and `invt <task> --help --json`.
+//
+// Bump MANIFEST_SCHEMA_VERSION on any breaking change: removing or renaming
+// a field, or changing its type. Adding fields is not breaking.
+export const MANIFEST_SCHEMA_VERSION = 1;
+
+export interface FlagManifest {
+  long: string; // e.g. "--name"
+  short: string | null; // e.g. "-n"
+  aliases: string[]; // e.g. ["--who"]
+}
+
+export interface ParamManifest {
+  name: string;
+  type: ParamType;
+  required: boolean;
+  rest: boolean;
+  elementType: ParamType | null; // element type of an array or rest param
+  choices: (string | number)[] | null; // allowed values of a "choice" param or element
+  names: string[] | null; // typed for each choice, when numeric enum members
+  schema: TypeSchema | null; // object fields, when resolved from the source
+  flatten: boolean; // fields are set as --field rather than --param.field
+  env: string | null; // environment variable bound with @env
+  exists: boolean; // a path param must name an existing file (@exists)
+  custom: string | null; // type registered with defineType, for "custom"
+  default: string | null; // source expression, e.g. "\"up\"" or "1"
+  description: string | null; // from @param
+  flag: FlagManifest | null; // null for rest params
+}
+
+export interface TaskManifest {
+  name: string; // method name, e.g. "migrate"
+  command: string; // what to type, e.g. "db:migrate"
+  namespace: string | null; // e.g. "db" or "infra:aws"
+  description: string; // first line of the JSDoc description
+  details: string | null; // the whole description, when longer than a line
+  jsdoc: string | null;
+  depends: string[];
+  post: string[];
+  params: ParamManifest[];
+}
+
+// `invt --list --json`
+export interface Manifest {
+  schemaVersion: number;
+  tasksPath: string;
+  description: string | null;
+  tasks: TaskManifest[];
+}
+
+// `invt <task> --help --json`
+export interface TaskHelpManifest {
+  schemaVersion: number;
+  task: TaskManifest;
+}
+
+function paramToManifest(param: ParamMeta): ParamManifest {
+  return {
+    name: param.name,
+    type: param.type,
+    required: param.required,
+    rest: param.isRest,
+    elementType: param.elementType ?? null,
+    choices: param.choices ?? null,
+    names: param.names ?? null,
+    schema: param.schema ?? null,
+    flatten: param.flatten ?? false,
+    env: param.env ?? null,
+    exists: param.exists ?? false,
+    custom: param.custom ?? null,
+    default: param.default ?? null,
+    description: param.description ?? null,
+    flag: param.flag
+      ? {
+          long: param.flag.long,
+          short: param.flag.short ?? null,
+          aliases: param.flag.aliases ?? [],
+        }
+      : null,
+  };
+}
+
+export function taskToManifest(
+  namespace: string | null,
+  name: string,
+  meta: TaskMeta,
+): TaskManifest {
+  return {
+    name,
+    command: namespace ? `${namespace}:${name}` : name,
+    namespace,
+    description: meta.description,
+    details: meta.details ?? null,
+    jsdoc: meta.jsdoc ?? null,
+    depends: meta.depends ?? [],
+    post: meta.post ?? [],
+    params: meta.params.map(paramToManifest),
+  };
+}
+
+export function buildManifest(
+  discovered: DiscoveredTasks,
+  tasksPath: string,
+): Manifest {
+  const tasks: TaskManifest[] = [];
+
+  for (const [name, meta] of discovered.root) {
+    tasks.push(taskToManifest(null, name, meta));
+  }
+  for (const [ns, methods] of discovered.namespaced) {
+    for (const [name, meta] of methods) {
+      tasks.push(taskToManifest(ns, name, meta));
+    }
+  }
+
+  return {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    tasksPath,
+    description: discovered.classDoc,
+    tasks,
+  };
+}
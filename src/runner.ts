@@ -0,0 +1,300 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { format } from "util";
+import { Context, prefixLines } from "./context";
+import {
+  discoverRuntimeNamespaces,
+  type DiscoveredTasks,
+  type TaskMeta,
+} from "./discovery";
+import { coerceTaskArgs, parseCommand } from "./args";
+
+// A command resolved to its bound function and metadata
+export interface ResolvedTask {
+  command: string;
+  meta: TaskMeta;
+  method: Function;
+  thisArg: any;
+}
+
+// Look up a command on the Tasks instance; throws with a user-facing message
+export function resolveTask(
+  command: string,
+  instance: any,
+  discovered: DiscoveredTasks,
+): ResolvedTask {
+  const { namespace, method: methodName } = parseCommand(command);
+
+  if (methodName === "constructor") {
+    throw new Error('Cannot call constructor method "constructor"');
+  }
+
+  let meta: TaskMeta | undefined;
+  let method: Function | undefined;
+  let thisArg: any = instance;
+
+  if (namespace) {
+    // Validate every namespace segment
+    const privateSegment = namespace
+      .split(":")
+      .find((segment) => segment.startsWith("_"));
+    if (privateSegment) {
+      throw new Error(`Cannot call private namespace "${privateSegment}"`);
+    }
+
+    // Validate method
+    if (methodName.startsWith("_")) {
+      throw new Error(`Cannot call private method "${methodName}"`);
+    }
+
+    const nsMethods = discovered.namespaced.get(namespace);
+    if (!nsMethods) {
+      throw new Error(`Unknown namespace: ${namespace}`);
+    }
+
+    meta = nsMethods.get(methodName);
+    if (!meta) {
+      throw new Error(
+        `Unknown task: ${command}\n` +
+          `Available in ${namespace}: ${[...nsMethods.keys()].join(", ")}`,
+      );
+    }
+
+    // Walk the object graph down to the namespace instance
+    thisArg = namespace
+      .split(":")
+      .reduce((obj, segment) => obj?.[segment], instance);
+    method = thisArg?.[methodName];
+  } else {
+    // Root task
+    if (methodName.startsWith("_")) {
+      throw new Error(`Cannot call private method "${methodName}"`);
+    }
+
+    meta = discovered.root.get(methodName);
+    method = instance[methodName];
+
+    // If method exists at runtime but not in source (inherited), allow it
+    if (!meta && typeof method === "function") {
+      // Inherited method - no type info, treat all args as strings
+      meta = { description: "", params: [] };
+    } else if (!meta) {
+      const allTasks = [...discovered.root.keys()];
+      for (const [ns, methods] of discovered.namespaced) {
+        for (const m of methods.keys()) {
+          allTasks.push(`${ns}:${m}`);
+        }
+      }
+      throw new Error(
+        `Unknown task: ${command}\nAvailable: ${allTasks.join(", ")}`,
+      );
+    }
+  }
+
+  if (typeof method !== "function") {
+    throw new Error(`Task "${command}" is not a function`);
+  }
+
+  return { command, meta, method, thisArg };
+}
+
+// Namespaces accept "." too, so compare tasks by their ":" form
+function canonicalCommand(command: string): string {
+  return command.replace(/\./g, ":");
+}
+
+// A task to run, with its raw CLI arguments
+export interface PlannedStep {
+  key: string; // identifies the task and its arguments
+  task: ResolvedTask;
+  argv: string[];
+  dependencyOf?: string; // set when pulled in by @depends / @post
+  after: string[]; // keys of steps that must finish first
+}
+
+// Order tasks with their @depends and @post tasks so that prerequisites
+// come first and the same task with the same arguments runs only once. A
+// @depends or @post task is already satisfied by any earlier step of that
+// task, whatever its arguments. Throws on dependency cycles.
+export function planTasks(
+  targets: { task: ResolvedTask; argv: string[] }[],
+  lookup: (command: string) => ResolvedTask,
+): PlannedStep[] {
+  const plan: PlannedStep[] = [];
+  const done = new Set<string>();
+  const doneByName = new Map<string, string>(); // task name -> first step key
+  const visiting: string[] = [];
+
+  const visit = (
+    task: ResolvedTask,
+    argv: string[],
+    dependencyOf?: string,
+    after: string[] = [],
+  ): string => {
+    const name = canonicalCommand(task.command);
+    const key = [name, ...argv].join("\0");
+    if (done.has(key)) return key;
+    const earlier = doneByName.get(name);
+    if (dependencyOf && earlier !== undefined) return earlier;
+    if (visiting.includes(name)) {
+      const cycle = [...visiting.slice(visiting.indexOf(name)), name];
+      throw new Error(`Dependency cycle: ${cycle.join(" -> ")}`);
+    }
+
+    visiting.push(name);
+    const depKeys = (task.meta.depends ?? []).map((dep) =>
+      visit(lookup(dep), [], task.command),
+    );
+    visiting.pop();
+
+    done.add(key);
+    if (!doneByName.has(name)) doneByName.set(name, key);
+    plan.push({ key, task, argv, dependencyOf, after: [...after, ...depKeys] });
+
+    for (const post of task.meta.post ?? []) {
+      visit(lookup(post), [], task.command, [key]);
+    }
+    return key;
+  };
+
+  for (const { task, argv } of targets) {
+    visit(task, argv);
+  }
+  return plan;
+}
+
+// Name of the parallel step whose code is running, for labelling its
+// console output
+const stepPrefix = new AsyncLocalStorage<string>();
+
+const CONSOLE_METHODS = ["log", "info", "debug", "warn", "error"] as const;
+
+// Run `fn` with console output labelled by the step it comes from, so a
+// task's own console.log lines carry the same prefix as its commands
+async function withPrefixedConsole<T>(fn: () => Promise<T>): Promise<T> {
+  const originals = CONSOLE_METHODS.map((method) => console[method]);
+  CONSOLE_METHODS.forEach((method, i) => {
+    console[method] = (...args: unknown[]) => {
+      const prefix = stepPrefix.getStore();
+      if (!prefix) return originals[i].apply(console, args);
+      originals[i].call(console, prefixLines(format(...args), prefix));
+    };
+  });
+  try {
+    return await fn();
+  } finally {
+    CONSOLE_METHODS.forEach((method, i) => (console[method] = originals[i]));
+  }
+}
+
+// Run planned steps concurrently, each starting once the steps it comes
+// after have finished. Output from Context.run and the task's console is
+// prefixed with the task name.
+export async function runParallel(
+  plan: PlannedStep[],
+  planArgs: unknown[][],
+  base: Context,
+  jobs?: number,
+): Promise<void> {
+  const finished = new Map<string, Promise<void>>();
+
+  // Steps start in plan order, so prerequisites are registered first
+  const fns = plan.map((step, i) => () => {
+    const promise = (async () => {
+      const settled = await Promise.allSettled(
+        step.after.map((key) => finished.get(key)),
+      );
+      if (settled.some((s) => s.status === "rejected")) {
+        console.error(`Skipping "${step.task.command}": a dependency failed`);
+        throw new Error(`skipped ${step.task.command}`);
+      }
+
+      const context = new Context({
+        ...base.config,
+        prefix: step.task.command,
+      });
+      try {
+        await stepPrefix.run(step.task.command, () =>
+          executeTask(step.task, context, planArgs[i]),
+        );
+      } catch (e) {
+        console.error(
+          `Error running "${step.task.command}": ${(e as Error).message}`,
+        );
+        throw e;
+      }
+    })();
+    finished.set(step.key, promise);
+    return promise;
+  });
+
+  try {
+    await withPrefixedConsole(() => base.parallel(fns, { limit: jobs }));
+  } catch (e) {
+    if (e instanceof AggregateError) {
+      throw new Error(`${e.errors.length} of ${plan.length} tasks failed`);
+    }
+    throw e;
+  }
+}
+
+// Call a task, awaiting only when it returns a thenable
+export async function executeTask(
+  task: ResolvedTask,
+  context: Context,
+  args: unknown[],
+): Promise<unknown> {
+  const result = task.method.call(task.thisArg, context, ...args);
+  return isThenable(result) ? await result : result;
+}
+
+// Whether a task's return value should be awaited
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    (typeof value === "object" || typeof value === "function") &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+}
+
+// Run a task the way `invt <command> <argv...>` would, with its @depends
+// and @post tasks, and return what the task returned. Pass the result of
+// discoverAllTasks or loadTasks to get typed arguments; without it every
+// argument is passed as a string. Errors are thrown, never printed.
+export async function runTask(
+  instance: any,
+  command: string,
+  argv: string[] = [],
+  context: Context = new Context(),
+  discovered: DiscoveredTasks = {
+    root: new Map(),
+    namespaced: new Map(),
+    classDoc: null,
+  },
+): Promise<unknown> {
+  discoverRuntimeNamespaces(instance, discovered);
+
+  const lookup = (name: string) => resolveTask(name, instance, discovered);
+  const target = lookup(command);
+  const plan = planTasks([{ task: target, argv }], lookup);
+
+  // Validate every step's arguments before running any of them
+  const planArgs = plan.map(({ task, argv, dependencyOf }) => {
+    try {
+      return coerceTaskArgs(task.meta, argv);
+    } catch (e) {
+      if (!dependencyOf) throw e;
+      throw new Error(
+        `Cannot run dependency "${task.command}" of "${dependencyOf}": ${(e as Error).message}`,
+      );
+    }
+  });
+
+  let result: unknown;
+  for (let i = 0; i < plan.length; i++) {
+    const value = await executeTask(plan[i].task, context, planArgs[i]);
+    if (plan[i].task === target) {
+      result = value;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,27 @@
+// Custom argument types, registered by tasks files with defineType
+
+export interface CustomType<T = unknown> {
+  parse(value: string): T; // throw to reject the value
+  describe?: string; // shown in help and errors, e.g. "version like 1.2.3"
+  complete?(): string[]; // values offered by shell completion
+}
+
+// Kept on globalThis so that a tasks file importing its own copy of
+// invoket registers types where the CLI can see them
+const REGISTRY = Symbol.for("invoket.types");
+
+function registry(): Map<string, CustomType> {
+  const store = globalThis as { [REGISTRY]?: Map<string, CustomType> };
+  return (store[REGISTRY] ??= new Map());
+}
+
+// Register a type by name: task parameters declared with that type are
+// parsed by `parse`, and help and completion use `describe` and `complete`
+export function defineType<T>(name: string, type: CustomType<T>): void {
+  registry().set(name, type as CustomType);
+}
+
+// The registered type with this name, if any
+export function findType(name: string): CustomType | undefined {
+  return registry().get(name);
+}
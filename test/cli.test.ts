@@ -1,186 +1,85 @@
-import { describe, test, expect } from "bun:test";
-
-// Extract the functions we want to test by re-implementing them here
-// In a real project, we'd export these from cli.ts
-
-type ParamType = "string" | "number" | "boolean" | "object" | "array";
-
-interface ParamMeta {
-  name: string;
-  type: ParamType;
-  required: boolean;
-}
-
-interface TaskMeta {
-  description: string;
-  params: ParamMeta[];
-}
-
-// Parse TypeScript source to extract method signatures and types
-function extractTaskMeta(source: string): Map<string, TaskMeta> {
-  const tasks = new Map<string, TaskMeta>();
-
-  const methodPattern =
-    /\/\*\*\s*([^*]*(?:\*(?!\/)[^*]*)*)\*\/\s*async\s+(\w+)\s*\(\s*c\s*:\s*Context\s*(?:,\s*([^)]+))?\s*\)/g;
-
-  let match;
-  while ((match = methodPattern.exec(source)) !== null) {
-    const [, jsdoc, methodName, paramsStr] = match;
-
-    // Skip private methods and constructor
-    if (methodName.startsWith("_") || methodName === "constructor") {
-      continue;
-    }
-
-    const description =
-      jsdoc
-        .split("\n")
-        .map((line) => line.replace(/^\s*\*?\s*/, "").trim())
-        .filter((line) => line && !line.startsWith("@"))[0] || "";
-
-    const params: ParamMeta[] = [];
-
-    if (paramsStr) {
-      // Order matters: more specific patterns first
-      const paramPattern =
-        /(\w+)\s*:\s*(\w+\[\]|Record<[^>]+>|\{[^}]*\}|string|number|boolean|\w+)(?:\s*=\s*[^,)]+)?/g;
-      let paramMatch;
-
-      while ((paramMatch = paramPattern.exec(paramsStr)) !== null) {
-        const [fullMatch, name, rawType] = paramMatch;
-        const hasDefault = fullMatch.includes("=");
-
-        let type: ParamType;
-        if (rawType === "string") {
-          type = "string";
-        } else if (rawType === "number") {
-          type = "number";
-        } else if (rawType === "boolean") {
-          type = "boolean";
-        } else if (rawType.endsWith("[]")) {
-          type = "array";
-        } else {
-          type = "object";
-        }
-
-        params.push({
-          name,
-          type,
-          required: !hasDefault,
-        });
-      }
-    }
-
-    tasks.set(methodName, { description, params });
-  }
-
-  return tasks;
+import { describe, test, expect, afterAll } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  coerceArg,
+  discoverAllTasks,
+  discoverRuntimeNamespaces,
+  extractFlagAnnotations,
+  parseCliArgs,
+  parseCommand,
+  defineType,
+  resolveArgs,
+  resolveTask,
+  type DiscoveredTasks,
+  type ParamMeta,
+  type ParamType,
+  type TaskMeta,
+} from "../src/index";
+
+// Root tasks of a Tasks class with the given body, as the CLI discovers them
+function rootTasks(body: string): Map<string, TaskMeta> {
+  return discoverAllTasks(`export class Tasks {\n${body}\n}`).root;
 }
 
-// Convert CLI arg to typed value
-function coerceArg(value: string, type: ParamType): unknown {
-  switch (type) {
-    case "number": {
-      if (value === "") {
-        throw new Error(`Expected number, got ""`);
-      }
-      const n = Number(value);
-      if (Number.isNaN(n)) {
-        throw new Error(`Expected number, got "${value}"`);
-      }
-      return n;
-    }
-    case "boolean":
-      if (value === "true" || value === "1") return true;
-      if (value === "false" || value === "0") return false;
-      throw new Error(`Expected boolean, got "${value}"`);
-    case "object":
-    case "array": {
-      try {
-        const parsed = JSON.parse(value);
-        if (type === "array" && !Array.isArray(parsed)) {
-          throw new Error(`Expected array, got ${typeof parsed}`);
-        }
-        if (
-          type === "object" &&
-          (typeof parsed !== "object" ||
-            Array.isArray(parsed) ||
-            parsed === null)
-        ) {
-          throw new Error(
-            `Expected object, got ${Array.isArray(parsed) ? "array" : typeof parsed}`,
-          );
-        }
-        return parsed;
-      } catch (e) {
-        if (e instanceof SyntaxError) {
-          throw new Error(`Invalid JSON: ${e.message}`);
-        }
-        throw e;
-      }
-    }
-    case "string":
-    default:
-      return value;
-  }
+// Params of a single task method, for checking parsed param metadata
+function taskParams(params: string, jsdoc: string = "Task"): ParamMeta[] {
+  const body = `/**\n${jsdoc}\n*/\nasync task(c: Context, ${params}) {}`;
+  return rootTasks(body).get("task")!.params;
 }
 
-describe("extractTaskMeta", () => {
+describe("task metadata from source", () => {
   test("extracts method with no params", () => {
-    const source = `
+    const meta = rootTasks(`
       /** Run the build */
       async build(c: Context) {}
-    `;
-    const meta = extractTaskMeta(source);
-    expect(meta.get("build")).toEqual({
+    `);
+    expect(meta.get("build")).toMatchObject({
       description: "Run the build",
       params: [],
     });
   });
 
   test("extracts method with string param", () => {
-    const source = `
+    const meta = rootTasks(`
       /** Say hello */
       async hello(c: Context, name: string) {}
-    `;
-    const meta = extractTaskMeta(source);
-    expect(meta.get("hello")).toEqual({
+    `);
+    expect(meta.get("hello")).toMatchObject({
       description: "Say hello",
       params: [{ name: "name", type: "string", required: true }],
     });
   });
 
   test("extracts method with number param", () => {
-    const source = `
+    const meta = rootTasks(`
       /** Count items */
       async count(c: Context, n: number) {}
-    `;
-    const meta = extractTaskMeta(source);
-    expect(meta.get("count")).toEqual({
+    `);
+    expect(meta.get("count")).toMatchObject({
       description: "Count items",
       params: [{ name: "n", type: "number", required: true }],
     });
   });
 
   test("extracts method with optional param (has default)", () => {
-    const source = `
+    const meta = rootTasks(`
       /** Greet someone */
       async greet(c: Context, name: string = "World") {}
-    `;
-    const meta = extractTaskMeta(source);
-    expect(meta.get("greet")).toEqual({
+    `);
+    expect(meta.get("greet")).toMatchObject({
       description: "Greet someone",
       params: [{ name: "name", type: "string", required: false }],
     });
   });
 
   test("extracts method with mixed required and optional params", () => {
-    const source = `
+    const meta = rootTasks(`
       /** Deploy app */
       async deploy(c: Context, env: string, force: boolean = false) {}
-    `;
-    const meta = extractTaskMeta(source);
-    expect(meta.get("deploy")).toEqual({
+    `);
+    expect(meta.get("deploy")).toMatchObject({
       description: "Deploy app",
       params: [
         { name: "env", type: "string", required: true },
@@ -190,67 +89,72 @@ describe("extractTaskMeta", () => {
   });
 
   test("extracts method with array type (string[])", () => {
-    const source = `
+    const meta = rootTasks(`
       /** Process items */
       async batch(c: Context, items: string[]) {}
-    `;
-    const meta = extractTaskMeta(source);
-    expect(meta.get("batch")).toEqual({
+    `);
+    expect(meta.get("batch")).toMatchObject({
       description: "Process items",
       params: [{ name: "items", type: "array", required: true }],
     });
   });
 
   test("extracts method with interface type as object", () => {
-    const source = `
+    const meta = rootTasks(`
       /** Search entities */
       async search(c: Context, params: SearchParams) {}
-    `;
-    const meta = extractTaskMeta(source);
-    expect(meta.get("search")).toEqual({
+    `);
+    expect(meta.get("search")).toMatchObject({
       description: "Search entities",
       params: [{ name: "params", type: "object", required: true }],
     });
   });
 
   test("extracts method with Record type as object", () => {
-    const source = `
+    const meta = rootTasks(`
       /** Set config */
       async config(c: Context, settings: Record<string, string>) {}
-    `;
-    const meta = extractTaskMeta(source);
-    expect(meta.get("config")).toEqual({
+    `);
+    expect(meta.get("config")).toMatchObject({
       description: "Set config",
       params: [{ name: "settings", type: "object", required: true }],
     });
   });
 
   test("extracts multiple methods", () => {
-    const source = `
+    const meta = rootTasks(`
       /** First task */
       async first(c: Context) {}
 
       /** Second task */
       async second(c: Context, x: number) {}
-    `;
-    const meta = extractTaskMeta(source);
+    `);
     expect(meta.size).toBe(2);
     expect(meta.has("first")).toBe(true);
     expect(meta.has("second")).toBe(true);
   });
 
   test("extracts first line of multi-line JSDoc", () => {
-    const source = `
+    const meta = rootTasks(`
       /**
        * Deploy to production
        * This is a longer description
        * @param env - The environment
        */
       async deploy(c: Context, env: string) {}
-    `;
-    const meta = extractTaskMeta(source);
+    `);
     expect(meta.get("deploy")?.description).toBe("Deploy to production");
   });
+
+  test("does not require JSDoc or async", () => {
+    const meta = rootTasks(`
+      build(c: Context, target: string) {}
+    `);
+    expect(meta.get("build")).toMatchObject({
+      description: "",
+      params: [{ name: "target", type: "string", required: true }],
+    });
+  });
 });
 
 describe("coerceArg", () => {
@@ -340,6 +244,96 @@ describe("coerceArg", () => {
     });
   });
 
+  describe("choice type", () => {
+    test("returns the matching choice", () => {
+      expect(coerceArg("prod", "choice", { choices: ["dev", "prod"] })).toBe(
+        "prod",
+      );
+      expect(coerceArg("2", "choice", { choices: [1, 2, 3] })).toBe(2);
+    });
+
+    test("throws listing allowed values", () => {
+      expect(() =>
+        coerceArg("qa", "choice", { choices: ["dev", "prod"] }),
+      ).toThrow('Expected one of dev, prod, got "qa"');
+    });
+
+    test("maps numeric enum member names to their values", () => {
+      const level = { choices: [0, 1], names: ["Low", "High"] };
+      expect(coerceArg("High", "choice", level)).toBe(1);
+      expect(coerceArg("0", "choice", level)).toBe(0);
+      expect(() => coerceArg("Max", "choice", level)).toThrow(
+        'Expected one of Low, High, got "Max"',
+      );
+      expect(
+        coerceArg('["Low", 1]', "array", {
+          elementType: "choice",
+          ...level,
+        }),
+      ).toEqual([0, 1]);
+    });
+  });
+
+  describe("array elements", () => {
+    test("accepts elements of the element type", () => {
+      expect(coerceArg("[1, 2]", "array", { elementType: "number" })).toEqual([
+        1, 2,
+      ]);
+    });
+
+    test("names the element that failed", () => {
+      expect(() =>
+        coerceArg('[1, "x"]', "array", { name: "ids", elementType: "number" }),
+      ).toThrow('ids[1]: Expected number, got "x"');
+      expect(() =>
+        coerceArg('["dev", "qa"]', "array", {
+          name: "envs",
+          elementType: "choice",
+          choices: ["dev", "prod"],
+        }),
+      ).toThrow('envs[1]: Expected one of dev, prod, got "qa"');
+    });
+  });
+
+  describe("object schemas", () => {
+    const schema = {
+      type: "object" as const,
+      properties: {
+        query: { type: "string" as const },
+        limit: { type: "number" as const, optional: true },
+        owner: {
+          type: "object" as const,
+          properties: { name: { type: "string" as const } },
+          nullable: true,
+        },
+      },
+    };
+
+    test("accepts values matching the schema", () => {
+      expect(
+        coerceArg('{"query": "x", "owner": null}', "object", { schema }),
+      ).toEqual({ query: "x", owner: null });
+    });
+
+    test("names the path that failed", () => {
+      expect(() =>
+        coerceArg('{"query": "x", "limit": "ten"}', "object", {
+          name: "params",
+          schema,
+        }),
+      ).toThrow('params.limit: Expected number, got "ten"');
+      expect(() =>
+        coerceArg('{"limit": 1}', "object", { name: "params", schema }),
+      ).toThrow("params.query: Missing required string");
+      expect(() =>
+        coerceArg('{"query": "x", "owner": {}}', "object", {
+          name: "params",
+          schema,
+        }),
+      ).toThrow("params.owner.name: Missing required string");
+    });
+  });
+
   describe("array type", () => {
     test("parses valid JSON arrays", () => {
       expect(coerceArg('["a", "b", "c"]', "array")).toEqual(["a", "b", "c"]);
@@ -361,16 +355,180 @@ describe("coerceArg", () => {
       );
     });
   });
+
+  describe("date type", () => {
+    test("parses ISO dates and epoch milliseconds", () => {
+      expect(coerceArg("2024-01-31T12:00:00Z", "date")).toEqual(
+        new Date("2024-01-31T12:00:00Z"),
+      );
+      expect(coerceArg("1706702400000", "date")).toEqual(
+        new Date("2024-01-31T12:00:00Z"),
+      );
+    });
+
+    test("reads short numbers as ISO years, not epoch milliseconds", () => {
+      expect(coerceArg("2024", "date")).toEqual(
+        new Date("2024-01-01T00:00:00Z"),
+      );
+    });
+
+    test("throws on invalid dates", () => {
+      expect(() => coerceArg("yesterday", "date")).toThrow(
+        'Expected date (e.g. 2024-01-31 or 2024-01-31T12:00:00Z), got "yesterday"',
+      );
+      expect(() => coerceArg("", "date")).toThrow("Expected date");
+    });
+  });
+
+  describe("url type", () => {
+    test("parses absolute URLs", () => {
+      const url = coerceArg("https://example.com/api?x=1", "url") as URL;
+      expect(url).toBeInstanceOf(URL);
+      expect(url.hostname).toBe("example.com");
+    });
+
+    test("throws on relative or malformed URLs", () => {
+      expect(() => coerceArg("/api", "url")).toThrow(
+        'Expected URL (e.g. https://example.com), got "/api"',
+      );
+    });
+  });
+
+  describe("bigint type", () => {
+    test("parses integers of any size", () => {
+      expect(coerceArg("9007199254740993", "bigint")).toBe(9007199254740993n);
+      expect(coerceArg("-5", "bigint")).toBe(-5n);
+    });
+
+    test("throws on non-integers", () => {
+      expect(() => coerceArg("1.5", "bigint")).toThrow(
+        'Expected integer, got "1.5"',
+      );
+    });
+  });
+
+  describe("duration type", () => {
+    test("converts units to milliseconds", () => {
+      expect(coerceArg("500ms", "duration")).toBe(500);
+      expect(coerceArg("30s", "duration")).toBe(30_000);
+      expect(coerceArg("5m", "duration")).toBe(300_000);
+      expect(coerceArg("1h30m", "duration")).toBe(5_400_000);
+      expect(coerceArg("1.5d", "duration")).toBe(129_600_000);
+      expect(coerceArg("250", "duration")).toBe(250);
+    });
+
+    test("throws on malformed durations", () => {
+      for (const value of ["5 minutes", "m5", "", "1h-5m"]) {
+        expect(() => coerceArg(value, "duration")).toThrow(
+          `Expected duration (e.g. 500ms, 30s, 5m or 1h30m), got "${value}"`,
+        );
+      }
+    });
+  });
+
+  describe("path type", () => {
+    test("resolves against the working directory", () => {
+      expect(coerceArg("src/cli.ts", "path")).toBe(
+        join(process.cwd(), "src/cli.ts"),
+      );
+      expect(coerceArg("/tmp/x", "path")).toBe("/tmp/x");
+    });
+
+    test("checks existence when asked", () => {
+      expect(() => coerceArg("no/such/file", "path", { exists: true })).toThrow(
+        "Path not found: no/such/file",
+      );
+      expect(coerceArg(".", "path", { exists: true })).toBe(process.cwd());
+    });
+  });
+
+  describe("custom types", () => {
+    defineType("SemVer", {
+      describe: "version like 1.2.3",
+      parse(value) {
+        const match = value.match(/^(\d+)\.(\d+)\.(\d+)$/);
+        if (!match) throw new Error("use major.minor.patch");
+        return match.slice(1).map(Number);
+      },
+    });
+
+    test("delegates parsing to the registered type", () => {
+      expect(coerceArg("1.2.3", "custom", { custom: "SemVer" })).toEqual([
+        1, 2, 3,
+      ]);
+    });
+
+    test("reports its description and the parser's reason", () => {
+      expect(() => coerceArg("1.2", "custom", { custom: "SemVer" })).toThrow(
+        'Expected version like 1.2.3, got "1.2": use major.minor.patch',
+      );
+    });
+
+    test("parses elements and fields inside JSON", () => {
+      expect(
+        coerceArg('["1.0.0", "2.1.0"]', "array", {
+          elementType: "custom",
+          custom: "SemVer",
+        }),
+      ).toEqual([
+        [1, 0, 0],
+        [2, 1, 0],
+      ]);
+      expect(() =>
+        coerceArg('{"from": "x"}', "object", {
+          name: "range",
+          schema: {
+            type: "object",
+            properties: { from: { type: "custom", custom: "SemVer" } },
+          },
+        }),
+      ).toThrow('range.from: Expected version like 1.2.3, got "x"');
+    });
+
+    test("throws for unregistered types", () => {
+      expect(() => coerceArg("x", "custom", { custom: "Nope" })).toThrow(
+        "Unknown type: Nope",
+      );
+    });
+  });
+
+  describe("converted types inside JSON", () => {
+    test("converts object fields and array elements", () => {
+      const schema = {
+        type: "object" as const,
+        properties: {
+          since: { type: "date" as const },
+          timeout: { type: "duration" as const, optional: true },
+        },
+      };
+      expect(
+        coerceArg('{"since": "2024-01-31", "timeout": "2m"}', "object", {
+          schema,
+        }),
+      ).toEqual({ since: new Date("2024-01-31"), timeout: 120_000 });
+      expect(
+        coerceArg('["1s", 5]', "array", { elementType: "duration" }),
+      ).toEqual([1000, 5]);
+    });
+
+    test("names the field that fails to convert", () => {
+      const schema = {
+        type: "object" as const,
+        properties: { endpoint: { type: "url" as const } },
+      };
+      expect(() =>
+        coerceArg('{"endpoint": 42}', "object", { name: "opts", schema }),
+      ).toThrow("opts.endpoint: Expected url, got 42");
+    });
+  });
 });
 
-describe("integration: extractTaskMeta + coerceArg", () => {
+describe("integration: discoverAllTasks + coerceArg", () => {
   test("full workflow: parse method and coerce args", () => {
-    const source = `
+    const meta = rootTasks(`
       /** Search with filters */
       async search(c: Context, entity: string, params: SearchParams) {}
-    `;
-
-    const meta = extractTaskMeta(source);
+    `);
     const taskMeta = meta.get("search")!;
 
     // Simulate CLI args
@@ -384,12 +542,10 @@ describe("integration: extractTaskMeta + coerceArg", () => {
   });
 
   test("full workflow with array param", () => {
-    const source = `
+    const meta = rootTasks(`
       /** Batch process */
       async batch(c: Context, items: string[]) {}
-    `;
-
-    const meta = extractTaskMeta(source);
+    `);
     const taskMeta = meta.get("batch")!;
 
     const cliArgs = ['["apple", "banana", "cherry"]'];
@@ -408,60 +564,29 @@ describe("integration: extractTaskMeta + coerceArg", () => {
 
 describe("private methods (spec section 3)", () => {
   test("excludes methods starting with _", () => {
-    const source = `
+    const meta = rootTasks(`
       /** Public task */
       async publicTask(c: Context) {}
 
       /** Private helper */
       async _privateHelper(c: Context) {}
-    `;
-    const meta = extractTaskMeta(source);
+    `);
     expect(meta.has("publicTask")).toBe(true);
     expect(meta.has("_privateHelper")).toBe(false);
   });
 
   test("excludes constructor", () => {
-    const source = `
+    const meta = rootTasks(`
       constructor() {}
 
       /** Public task */
       async hello(c: Context) {}
-    `;
-    const meta = extractTaskMeta(source);
+    `);
     expect(meta.has("constructor")).toBe(false);
     expect(meta.has("hello")).toBe(true);
   });
 });
 
-// Parse command to extract namespace and method
-function parseCommand(command: string): {
-  namespace: string | null;
-  method: string;
-} {
-  // Check for namespace separator (: or .)
-  const colonIdx = command.indexOf(":");
-  const dotIdx = command.indexOf(".");
-
-  // Use whichever separator comes first
-  let sepIdx = -1;
-  if (colonIdx !== -1 && dotIdx !== -1) {
-    sepIdx = Math.min(colonIdx, dotIdx);
-  } else if (colonIdx !== -1) {
-    sepIdx = colonIdx;
-  } else if (dotIdx !== -1) {
-    sepIdx = dotIdx;
-  }
-
-  if (sepIdx !== -1) {
-    return {
-      namespace: command.slice(0, sepIdx),
-      method: command.slice(sepIdx + 1),
-    };
-  }
-
-  return { namespace: null, method: command };
-}
-
 describe("namespace parsing (spec section 5)", () => {
   test("parses simple task name", () => {
     expect(parseCommand("hello")).toEqual({ namespace: null, method: "hello" });
@@ -483,109 +608,68 @@ describe("namespace parsing (spec section 5)", () => {
 
   test("handles nested namespaces with colon", () => {
     expect(parseCommand("db:schema:migrate")).toEqual({
-      namespace: "db",
-      method: "schema:migrate",
+      namespace: "db:schema",
+      method: "migrate",
     });
   });
 });
 
-// Discover tasks from an instance (runtime discovery)
-interface DiscoveryResult {
-  root: string[];
-  namespaced: Record<string, string[]>;
+// Discovery with nothing found in source, as for classes defined elsewhere
+function emptyDiscovery(): DiscoveredTasks {
+  return { root: new Map(), namespaced: new Map(), classDoc: null };
 }
 
-function discoverTasks(instance: any): DiscoveryResult {
-  const root: string[] = [];
-  const namespaced: Record<string, string[]> = {};
-
-  // Walk prototype chain for root tasks
-  let proto = Object.getPrototypeOf(instance);
-  while (proto && proto !== Object.prototype) {
-    for (const name of Object.getOwnPropertyNames(proto)) {
-      if (
-        name !== "constructor" &&
-        !name.startsWith("_") &&
-        typeof proto[name] === "function" &&
-        !root.includes(name)
-      ) {
-        root.push(name);
-      }
-    }
-    proto = Object.getPrototypeOf(proto);
-  }
-
-  // Get namespaced tasks from instance properties
-  for (const name of Object.getOwnPropertyNames(instance)) {
-    if (name.startsWith("_")) continue;
-
-    const prop = instance[name];
-    if (prop && typeof prop === "object" && !Array.isArray(prop)) {
-      const methods: string[] = [];
-      let nsproto = Object.getPrototypeOf(prop);
-      while (nsproto && nsproto !== Object.prototype) {
-        for (const methodName of Object.getOwnPropertyNames(nsproto)) {
-          if (
-            methodName !== "constructor" &&
-            !methodName.startsWith("_") &&
-            typeof nsproto[methodName] === "function" &&
-            !methods.includes(methodName)
-          ) {
-            methods.push(methodName);
-          }
-        }
-        nsproto = Object.getPrototypeOf(nsproto);
-      }
-      if (methods.length > 0) {
-        namespaced[name] = methods;
-      }
-    }
-  }
-
-  return { root, namespaced };
+// Discover an instance's runtime namespaces as command -> method names
+function runtimeNamespaces(instance: object): Record<string, string[]> {
+  const discovered = emptyDiscovery();
+  discoverRuntimeNamespaces(instance, discovered);
+  return Object.fromEntries(
+    [...discovered.namespaced].map(([ns, methods]) => [
+      ns,
+      [...methods.keys()],
+    ]),
+  );
 }
 
 describe("task discovery (spec section 8)", () => {
-  test("discovers root methods", () => {
+  test("resolves root methods", () => {
     class Tasks {
       async hello() {}
       async build() {}
     }
-    const result = discoverTasks(new Tasks());
-    expect(result.root).toContain("hello");
-    expect(result.root).toContain("build");
+    const tasks = new Tasks();
+    expect(resolveTask("hello", tasks, emptyDiscovery()).method).toBe(
+      tasks.hello,
+    );
+    expect(resolveTask("build", tasks, emptyDiscovery()).method).toBe(
+      tasks.build,
+    );
   });
 
-  test("excludes private methods", () => {
+  test("rejects private methods", () => {
     class Tasks {
       async hello() {}
       async _private() {}
     }
-    const result = discoverTasks(new Tasks());
-    expect(result.root).toContain("hello");
-    expect(result.root).not.toContain("_private");
-  });
-
-  test("excludes constructor", () => {
-    class Tasks {
-      constructor() {}
-      async hello() {}
-    }
-    const result = discoverTasks(new Tasks());
-    expect(result.root).not.toContain("constructor");
-    expect(result.root).toContain("hello");
+    expect(() =>
+      resolveTask("_private", new Tasks(), emptyDiscovery()),
+    ).toThrow('Cannot call private method "_private"');
   });
 
-  test("discovers inherited methods", () => {
+  test("resolves inherited methods", () => {
     class BaseTasks {
       async baseTask() {}
     }
     class Tasks extends BaseTasks {
       async childTask() {}
     }
-    const result = discoverTasks(new Tasks());
-    expect(result.root).toContain("baseTask");
-    expect(result.root).toContain("childTask");
+    const tasks = new Tasks();
+    expect(resolveTask("baseTask", tasks, emptyDiscovery()).method).toBe(
+      tasks.baseTask,
+    );
+    expect(resolveTask("childTask", tasks, emptyDiscovery()).method).toBe(
+      tasks.childTask,
+    );
   });
 
   test("discovers namespaced methods", () => {
@@ -597,10 +681,7 @@ describe("task discovery (spec section 8)", () => {
       db = new DbNamespace();
       async hello() {}
     }
-    const result = discoverTasks(new Tasks());
-    expect(result.root).toContain("hello");
-    expect(result.namespaced.db).toContain("migrate");
-    expect(result.namespaced.db).toContain("seed");
+    expect(runtimeNamespaces(new Tasks())).toEqual({ db: ["migrate", "seed"] });
   });
 
   test("excludes private namespaces", () => {
@@ -611,9 +692,7 @@ describe("task discovery (spec section 8)", () => {
       _internal = new Internal();
       async hello() {}
     }
-    const result = discoverTasks(new Tasks());
-    expect(result.root).toContain("hello");
-    expect(result.namespaced._internal).toBeUndefined();
+    expect(runtimeNamespaces(new Tasks())).toEqual({});
   });
 
   test("excludes private methods in namespaces", () => {
@@ -624,27 +703,10 @@ describe("task discovery (spec section 8)", () => {
     class Tasks {
       db = new DbNamespace();
     }
-    const result = discoverTasks(new Tasks());
-    expect(result.namespaced.db).toContain("migrate");
-    expect(result.namespaced.db).not.toContain("_helper");
+    expect(runtimeNamespaces(new Tasks())).toEqual({ db: ["migrate"] });
   });
 });
 
-// Extract class-level JSDoc
-function extractClassDoc(source: string): string | null {
-  const match = source.match(
-    /\/\*\*\s*([^*]*(?:\*(?!\/)[^*]*)*)\*\/\s*export\s+class\s+Tasks/,
-  );
-  if (!match) return null;
-
-  const lines = match[1]
-    .split("\n")
-    .map((line) => line.replace(/^\s*\*?\s*/, "").trim())
-    .filter((line) => line && !line.startsWith("@"));
-
-  return lines[0] || null;
-}
-
 describe("JSDoc extraction (spec section 6)", () => {
   test("extracts class-level JSDoc", () => {
     const source = `
@@ -653,12 +715,14 @@ describe("JSDoc extraction (spec section 6)", () => {
        */
       export class Tasks {}
     `;
-    expect(extractClassDoc(source)).toBe("Project build and deployment tasks");
+    expect(discoverAllTasks(source).classDoc).toBe(
+      "Project build and deployment tasks",
+    );
   });
 
   test("returns null when no class JSDoc", () => {
     const source = `export class Tasks {}`;
-    expect(extractClassDoc(source)).toBeNull();
+    expect(discoverAllTasks(source).classDoc).toBeNull();
   });
 
   test("ignores @ annotations in class JSDoc", () => {
@@ -669,135 +733,50 @@ describe("JSDoc extraction (spec section 6)", () => {
        */
       export class Tasks {}
     `;
-    expect(extractClassDoc(source)).toBe("Main tasks");
+    expect(discoverAllTasks(source).classDoc).toBe("Main tasks");
   });
 });
 
-// Validate task name
-function validateTaskName(name: string): { valid: boolean; error?: string } {
-  if (name === "constructor") {
-    return {
-      valid: false,
-      error: 'Cannot call constructor method "constructor"',
-    };
+describe("error handling (spec section 10)", () => {
+  class Internal {
+    async secret() {}
   }
-  if (name.startsWith("_")) {
-    return { valid: false, error: `Cannot call private method "${name}"` };
+  class Tasks {
+    _internal = new Internal();
+    async hello() {}
+    async _helper() {}
   }
-  return { valid: true };
-}
+  const resolve = (command: string) =>
+    resolveTask(command, new Tasks(), emptyDiscovery());
 
-function validateNamespace(name: string): { valid: boolean; error?: string } {
-  if (name.startsWith("_")) {
-    return { valid: false, error: `Cannot call private namespace "${name}"` };
-  }
-  return { valid: true };
-}
-
-describe("error handling (spec section 10)", () => {
   test("rejects constructor invocation", () => {
-    const result = validateTaskName("constructor");
-    expect(result.valid).toBe(false);
-    expect(result.error).toBe('Cannot call constructor method "constructor"');
+    expect(() => resolve("constructor")).toThrow(
+      'Cannot call constructor method "constructor"',
+    );
   });
 
   test("rejects private method invocation", () => {
-    const result = validateTaskName("_helper");
-    expect(result.valid).toBe(false);
-    expect(result.error).toBe('Cannot call private method "_helper"');
+    expect(() => resolve("_helper")).toThrow(
+      'Cannot call private method "_helper"',
+    );
   });
 
   test("rejects private namespace", () => {
-    const result = validateNamespace("_internal");
-    expect(result.valid).toBe(false);
-    expect(result.error).toBe('Cannot call private namespace "_internal"');
+    expect(() => resolve("_internal:secret")).toThrow(
+      'Cannot call private namespace "_internal"',
+    );
   });
 
-  test("allows valid task names", () => {
-    expect(validateTaskName("hello").valid).toBe(true);
-    expect(validateTaskName("build").valid).toBe(true);
-    expect(validateTaskName("deployProd").valid).toBe(true);
+  test("rejects unknown tasks", () => {
+    expect(() => resolve("deploy")).toThrow("Unknown task: deploy");
   });
 });
 
-// Rest parameter detection
-interface RestParamMeta extends ParamMeta {
-  isRest: boolean;
-}
-
-function extractParamsWithRest(paramsStr: string): RestParamMeta[] {
-  const params: RestParamMeta[] = [];
-
-  // Check for rest parameter: ...name: type
-  const restMatch = paramsStr.match(/\.\.\.(\w+)\s*:\s*(\w+\[\]|\w+)/);
-  if (restMatch) {
-    const [, name, rawType] = restMatch;
-    params.push({
-      name,
-      type: rawType.endsWith("[]") ? "array" : "string",
-      required: false,
-      isRest: true,
-    });
-    return params;
-  }
-
-  // Regular params
-  const paramPattern =
-    /(\w+)\s*:\s*(\w+\[\]|Record<[^>]+>|\{[^}]*\}|string|number|boolean|\w+)(?:\s*=\s*[^,)]+)?/g;
-  let match;
-
-  while ((match = paramPattern.exec(paramsStr)) !== null) {
-    const [fullMatch, name, rawType] = match;
-    const hasDefault = fullMatch.includes("=");
-
-    let type: ParamType;
-    if (rawType === "string") {
-      type = "string";
-    } else if (rawType === "number") {
-      type = "number";
-    } else if (rawType === "boolean") {
-      type = "boolean";
-    } else if (rawType.endsWith("[]")) {
-      type = "array";
-    } else {
-      type = "object";
-    }
-
-    params.push({
-      name,
-      type,
-      required: !hasDefault,
-      isRest: false,
-    });
-  }
-
-  return params;
-}
-
 describe("rest parameters (spec section 3)", () => {
   test("detects rest parameter", () => {
-    const params = extractParamsWithRest("...items: string[]");
-    expect(params).toHaveLength(1);
-    expect(params[0]).toEqual({
-      name: "items",
-      type: "array",
-      required: false,
-      isRest: true,
-    });
-  });
-
-  test("formats rest param for help as [items...]", () => {
-    const params = extractParamsWithRest("...items: string[]");
-    const formatted = params
-      .map((p) =>
-        p.isRest
-          ? `[${p.name}...]`
-          : p.required
-            ? `<${p.name}>`
-            : `[${p.name}]`,
-      )
-      .join(" ");
-    expect(formatted).toBe("[items...]");
+    expect(taskParams("...items: string[]")).toMatchObject([
+      { name: "items", type: "array", required: false, isRest: true },
+    ]);
   });
 });
 
@@ -805,207 +784,6 @@ describe("rest parameters (spec section 3)", () => {
 // FLAG PARSING TESTS
 // =============================================================================
 
-// Interface for parsed CLI arguments
-interface ParsedArgs {
-  positional: string[];
-  flags: Map<string, string | boolean>;
-}
-
-// Parse CLI arguments into flags and positional args
-function parseCliArgs(args: string[]): ParsedArgs {
-  const positional: string[] = [];
-  const flags = new Map<string, string | boolean>();
-  let stopFlagParsing = false;
-
-  for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
-
-    if (stopFlagParsing) {
-      positional.push(arg);
-      continue;
-    }
-
-    if (arg === "--") {
-      stopFlagParsing = true;
-      continue;
-    }
-
-    // --flag=value
-    if (arg.startsWith("--") && arg.includes("=")) {
-      const eqIdx = arg.indexOf("=");
-      const name = arg.slice(2, eqIdx);
-      const value = arg.slice(eqIdx + 1);
-      flags.set(name, value);
-      continue;
-    }
-
-    // --no-flag (boolean negation)
-    if (arg.startsWith("--no-")) {
-      const name = arg.slice(5);
-      flags.set(name, false);
-      continue;
-    }
-
-    // --flag (may be boolean or need next arg)
-    if (arg.startsWith("--")) {
-      const name = arg.slice(2);
-      const nextArg = args[i + 1];
-
-      // If next arg exists and doesn't look like a flag, use it as value
-      if (nextArg !== undefined && !nextArg.startsWith("-")) {
-        flags.set(name, nextArg);
-        i++; // Skip next arg
-      } else {
-        flags.set(name, true); // Boolean flag
-      }
-      continue;
-    }
-
-    // -f=value (short with equals)
-    if (arg.startsWith("-") && arg.length > 2 && arg.includes("=")) {
-      const eqIdx = arg.indexOf("=");
-      const name = arg.slice(1, eqIdx);
-      const value = arg.slice(eqIdx + 1);
-      flags.set(name, value);
-      continue;
-    }
-
-    // -f value or -f (boolean)
-    if (arg.startsWith("-") && arg.length === 2) {
-      const name = arg.slice(1);
-      const nextArg = args[i + 1];
-
-      if (nextArg !== undefined && !nextArg.startsWith("-")) {
-        flags.set(name, nextArg);
-        i++;
-      } else {
-        flags.set(name, true);
-      }
-      continue;
-    }
-
-    // Positional argument
-    positional.push(arg);
-  }
-
-  return { positional, flags };
-}
-
-// Flag metadata for a parameter
-interface FlagMeta {
-  long: string; // e.g., "--name"
-  short?: string; // e.g., "-n"
-  aliases?: string[]; // e.g., ["--environment"]
-}
-
-// Extended ParamMeta with flag support
-interface ExtendedParamMeta {
-  name: string;
-  type: ParamType;
-  required: boolean;
-  isRest: boolean;
-  flag?: FlagMeta;
-}
-
-// Extract @flag annotations from JSDoc
-function extractFlagAnnotations(
-  jsdoc: string,
-): Map<string, { short?: string; aliases?: string[] }> {
-  const flags = new Map<string, { short?: string; aliases?: string[] }>();
-
-  // Match @flag paramName -s --alias1 --alias2
-  const flagPattern = /@flag\s+(\w+)\s+([^\n@]*)/g;
-  let match;
-
-  while ((match = flagPattern.exec(jsdoc)) !== null) {
-    const [, paramName, flagsStr] = match;
-    const parts = flagsStr.trim().split(/\s+/);
-
-    let short: string | undefined;
-    const aliases: string[] = [];
-
-    for (const part of parts) {
-      if (part.startsWith("--")) {
-        aliases.push(part);
-      } else if (part.startsWith("-") && part.length === 2) {
-        short = part;
-      }
-    }
-
-    flags.set(paramName, {
-      short: short,
-      aliases: aliases.length > 0 ? aliases : undefined,
-    });
-  }
-
-  return flags;
-}
-
-// Parse params with flag metadata
-function parseParamsWithFlags(
-  paramsStr: string | undefined,
-  jsdoc: string,
-): ExtendedParamMeta[] {
-  const params: ExtendedParamMeta[] = [];
-  if (!paramsStr) return params;
-
-  const flagAnnotations = extractFlagAnnotations(jsdoc);
-
-  // Check for rest parameter first: ...name: type
-  const restMatch = paramsStr.match(/\.\.\.(\w+)\s*:\s*(\w+\[\]|\w+)/);
-  if (restMatch) {
-    const [, name, rawType] = restMatch;
-    params.push({
-      name,
-      type: rawType.endsWith("[]") ? "array" : "string",
-      required: false,
-      isRest: true,
-      // Rest params don't get flags
-    });
-    return params;
-  }
-
-  const paramPattern =
-    /(\w+)\s*:\s*(\w+\[\]|Record<[^>]+>|\{[^}]*\}|string|number|boolean|\w+)(?:\s*=\s*[^,)]+)?/g;
-  let paramMatch;
-
-  while ((paramMatch = paramPattern.exec(paramsStr)) !== null) {
-    const [fullMatch, name, rawType] = paramMatch;
-    const hasDefault = fullMatch.includes("=");
-
-    let type: ParamType;
-    if (rawType === "string") {
-      type = "string";
-    } else if (rawType === "number") {
-      type = "number";
-    } else if (rawType === "boolean") {
-      type = "boolean";
-    } else if (rawType.endsWith("[]")) {
-      type = "array";
-    } else {
-      type = "object";
-    }
-
-    // Build flag metadata
-    const annotation = flagAnnotations.get(name);
-    const flag: FlagMeta = {
-      long: `--${name}`,
-      short: annotation?.short,
-      aliases: annotation?.aliases,
-    };
-
-    params.push({
-      name,
-      type,
-      required: !hasDefault,
-      isRest: false,
-      flag,
-    });
-  }
-
-  return params;
-}
-
 describe("extractFlagAnnotations", () => {
   test("extracts @flag with short flag", () => {
     const jsdoc = `
@@ -1078,9 +856,9 @@ describe("extractFlagAnnotations", () => {
   });
 });
 
-describe("parseParamsWithFlags", () => {
+describe("param flags", () => {
   test("auto-generates long flag from param name", () => {
-    const params = parseParamsWithFlags("env: string", "Deploy app");
+    const params = taskParams("env: string", "Deploy app");
     expect(params[0].flag).toEqual({ long: "--env" });
   });
 
@@ -1089,7 +867,7 @@ describe("parseParamsWithFlags", () => {
       Deploy app
       @flag env -e
     `;
-    const params = parseParamsWithFlags("env: string", jsdoc);
+    const params = taskParams("env: string", jsdoc);
     expect(params[0].flag).toEqual({ long: "--env", short: "-e" });
   });
 
@@ -1098,7 +876,7 @@ describe("parseParamsWithFlags", () => {
       Deploy
       @flag env -e --environment
     `;
-    const params = parseParamsWithFlags("env: string", jsdoc);
+    const params = taskParams("env: string", jsdoc);
     expect(params[0].flag).toEqual({
       long: "--env",
       short: "-e",
@@ -1112,16 +890,13 @@ describe("parseParamsWithFlags", () => {
       @flag env -e
       @flag force -f
     `;
-    const params = parseParamsWithFlags(
-      "env: string, force: boolean = false",
-      jsdoc,
-    );
+    const params = taskParams("env: string, force: boolean = false", jsdoc);
     expect(params[0].flag).toEqual({ long: "--env", short: "-e" });
     expect(params[1].flag).toEqual({ long: "--force", short: "-f" });
   });
 
   test("rest parameters do not get flags", () => {
-    const params = parseParamsWithFlags("...packages: string[]", "Install");
+    const params = taskParams("...packages: string[]", "Install");
     expect(params[0].isRest).toBe(true);
     expect(params[0].flag).toBeUndefined();
   });
@@ -1131,16 +906,13 @@ describe("parseParamsWithFlags", () => {
       Deploy
       @flag env -e
     `;
-    const params = parseParamsWithFlags("env: string, count: number", jsdoc);
+    const params = taskParams("env: string, count: number", jsdoc);
     expect(params[0].flag).toEqual({ long: "--env", short: "-e" });
     expect(params[1].flag).toEqual({ long: "--count" });
   });
 
   test("preserves other param metadata", () => {
-    const params = parseParamsWithFlags(
-      "name: string, count: number = 1",
-      "Hello",
-    );
+    const params = taskParams("name: string, count: number = 1", "Hello");
     expect(params[0]).toMatchObject({
       name: "name",
       type: "string",
@@ -1156,86 +928,6 @@ describe("parseParamsWithFlags", () => {
   });
 });
 
-// Resolve arguments from parsed CLI args using param metadata
-function resolveArgs(
-  params: ExtendedParamMeta[],
-  parsed: ParsedArgs,
-  coerceFn: (value: string, type: ParamType) => unknown,
-): unknown[] {
-  const result: unknown[] = [];
-  const usedPositional = new Set<number>();
-
-  for (const param of params) {
-    // Handle rest parameters - collect all remaining positional args
-    if (param.isRest) {
-      const remaining = parsed.positional.filter(
-        (_, i) => !usedPositional.has(i),
-      );
-      result.push(...remaining);
-      break;
-    }
-
-    let value: string | boolean | undefined;
-
-    // Try to get value from flags first
-    if (param.flag) {
-      // Check long flag (without --)
-      const longName = param.flag.long.slice(2);
-      if (parsed.flags.has(longName)) {
-        value = parsed.flags.get(longName);
-      }
-      // Check short flag (without -)
-      else if (param.flag.short) {
-        const shortName = param.flag.short.slice(1);
-        if (parsed.flags.has(shortName)) {
-          value = parsed.flags.get(shortName);
-        }
-      }
-      // Check aliases
-      if (value === undefined && param.flag.aliases) {
-        for (const alias of param.flag.aliases) {
-          const aliasName = alias.slice(2);
-          if (parsed.flags.has(aliasName)) {
-            value = parsed.flags.get(aliasName);
-            break;
-          }
-        }
-      }
-    }
-
-    // Fall back to positional if no flag found
-    if (value === undefined) {
-      for (let i = 0; i < parsed.positional.length; i++) {
-        if (!usedPositional.has(i)) {
-          value = parsed.positional[i];
-          usedPositional.add(i);
-          break;
-        }
-      }
-    }
-
-    // Handle missing values
-    if (value === undefined) {
-      if (param.required) {
-        throw new Error(
-          `Missing required argument: <${param.name}> (${param.type})`,
-        );
-      }
-      break; // Optional param not provided, stop processing
-    }
-
-    // Coerce and add to result
-    // Boolean flags that are already boolean don't need coercion
-    if (typeof value === "boolean" && param.type === "boolean") {
-      result.push(value);
-    } else {
-      result.push(coerceFn(String(value), param.type));
-    }
-  }
-
-  return result;
-}
-
 describe("resolveArgs", () => {
   // Helper to create params with flags
   const makeParams = (
@@ -1247,7 +939,7 @@ describe("resolveArgs", () => {
       short?: string;
       aliases?: string[];
     }>,
-  ): ExtendedParamMeta[] =>
+  ): ParamMeta[] =>
     defs.map((d) => ({
       name: d.name,
       type: d.type,
@@ -1268,7 +960,7 @@ describe("resolveArgs", () => {
       { name: "count", type: "number" },
     ]);
     const parsed = { positional: ["World", "3"], flags: new Map() };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual(["World", 3]);
   });
 
@@ -1284,7 +976,7 @@ describe("resolveArgs", () => {
         ["count", "3"],
       ]),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual(["World", 3]);
   });
 
@@ -1300,7 +992,7 @@ describe("resolveArgs", () => {
         ["c", "3"],
       ]),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual(["World", 3]);
   });
 
@@ -1312,7 +1004,7 @@ describe("resolveArgs", () => {
       positional: [],
       flags: new Map<string, string | boolean>([["environment", "prod"]]),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual(["prod"]);
   });
 
@@ -1325,7 +1017,7 @@ describe("resolveArgs", () => {
       positional: ["World"],
       flags: new Map<string, string | boolean>([["count", "3"]]),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual(["World", 3]);
   });
 
@@ -1335,7 +1027,7 @@ describe("resolveArgs", () => {
       positional: ["Positional"],
       flags: new Map<string, string | boolean>([["name", "FromFlag"]]),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual(["FromFlag"]);
   });
 
@@ -1347,7 +1039,7 @@ describe("resolveArgs", () => {
       positional: [],
       flags: new Map<string, string | boolean>([["force", true]]),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual([true]);
   });
 
@@ -1359,7 +1051,7 @@ describe("resolveArgs", () => {
       positional: [],
       flags: new Map<string, string | boolean>([["force", false]]),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual([false]);
   });
 
@@ -1371,14 +1063,23 @@ describe("resolveArgs", () => {
       positional: [],
       flags: new Map<string, string | boolean>([["force", "true"]]),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual([true]);
   });
 
+  test("passes false for absent switches and skips them for positionals", () => {
+    const params = makeParams([
+      { name: "force", type: "boolean" },
+      { name: "name", type: "string" },
+    ]);
+    const parsed = { positional: ["World"], flags: new Map() };
+    expect(resolveArgs(params, parsed)).toEqual([false, "World"]);
+  });
+
   test("throws on missing required arg", () => {
     const params = makeParams([{ name: "name", type: "string" }]);
     const parsed = { positional: [], flags: new Map() };
-    expect(() => resolveArgs(params, parsed, coerceArg)).toThrow(
+    expect(() => resolveArgs(params, parsed)).toThrow(
       "Missing required argument: <name>",
     );
   });
@@ -1392,12 +1093,25 @@ describe("resolveArgs", () => {
       positional: ["World"],
       flags: new Map(),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual(["World"]);
   });
 
+  test("binds later flags after a skipped optional param", () => {
+    const params = makeParams([
+      { name: "name", type: "string" },
+      { name: "greeting", type: "string", required: false },
+      { name: "enthusiasm", type: "number", required: false },
+    ]);
+    const parsed = {
+      positional: ["World"],
+      flags: new Map<string, string | boolean>([["enthusiasm", "3"]]),
+    };
+    expect(resolveArgs(params, parsed)).toEqual(["World", undefined, 3]);
+  });
+
   test("handles rest parameters", () => {
-    const params: ExtendedParamMeta[] = [
+    const params: ParamMeta[] = [
       {
         name: "packages",
         type: "array",
@@ -1409,12 +1123,12 @@ describe("resolveArgs", () => {
       positional: ["react", "vue", "angular"],
       flags: new Map(),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual(["react", "vue", "angular"]);
   });
 
   test("handles rest parameters with preceding params", () => {
-    const params: ExtendedParamMeta[] = [
+    const params: ParamMeta[] = [
       {
         name: "registry",
         type: "string",
@@ -1433,11 +1147,170 @@ describe("resolveArgs", () => {
       positional: ["react", "vue"],
       flags: new Map<string, string | boolean>([["registry", "npm"]]),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     // registry from flag, packages from positional
     expect(result).toEqual(["npm", "react", "vue"]);
   });
 
+  test("coerces rest elements and names the one that failed", () => {
+    const params = [
+      {
+        name: "ports",
+        type: "array" as const,
+        elementType: "number" as const,
+        required: false,
+        isRest: true,
+      },
+    ];
+    expect(
+      resolveArgs(params, { positional: ["80", "443"], flags: new Map() }),
+    ).toEqual([80, 443]);
+    expect(() =>
+      resolveArgs(params, { positional: ["80", "http"], flags: new Map() }),
+    ).toThrow('ports[1]: Expected number, got "http"');
+  });
+
+  describe("object fields", () => {
+    const params = (flatten = false) => [
+      {
+        name: "params",
+        type: "object" as const,
+        required: true,
+        isRest: false,
+        flatten,
+        flag: { long: "--params" },
+        schema: {
+          type: "object" as const,
+          properties: {
+            query: { type: "string" as const },
+            limit: { type: "number" as const, optional: true },
+            filters: {
+              type: "object" as const,
+              properties: { owner: { type: "string" as const } },
+            },
+          },
+        },
+      },
+    ];
+    const flags = (...entries: [string, string][]) => ({
+      positional: [],
+      flags: new Map<string, string | boolean>(entries),
+    });
+
+    test("builds the object from dotted flags", () => {
+      const parsed = flags(
+        ["params.query", "x"],
+        ["params.limit", "5"],
+        ["params.filters.owner", "me"],
+      );
+      expect(resolveArgs(params(), parsed)).toEqual([
+        { query: "x", limit: 5, filters: { owner: "me" } },
+      ]);
+    });
+
+    test("merges dotted flags into JSON given for the param", () => {
+      const parsed = flags(
+        ["params", '{"query": "x", "filters": {"owner": "a"}}'],
+        ["params.filters.owner", "b"],
+      );
+      expect(resolveArgs(params(), parsed)).toEqual([
+        { query: "x", filters: { owner: "b" } },
+      ]);
+    });
+
+    test("accepts bare field flags when flattened", () => {
+      const parsed = flags(["query", "x"], ["filters.owner", "me"]);
+      expect(resolveArgs(params(true), parsed)).toEqual([
+        { query: "x", filters: { owner: "me" } },
+      ]);
+    });
+
+    test("reports bad, missing and unknown fields", () => {
+      expect(() =>
+        resolveArgs(
+          params(),
+          flags(["params.query", "x"], ["params.limit", "ten"]),
+        ),
+      ).toThrow('params.limit: Expected number, got "ten"');
+      expect(() => resolveArgs(params(), flags(["params.query", "x"]))).toThrow(
+        "params.filters: Missing required object",
+      );
+      expect(() => resolveArgs(params(), flags(["params.nope", "x"]))).toThrow(
+        "Unknown field: --params.nope",
+      );
+    });
+  });
+
+  describe("environment variables", () => {
+    const params = makeParams([
+      { name: "target", type: "string" },
+      { name: "count", type: "number", required: false },
+    ]).map((p) => ({ ...p, env: `DEPLOY_${p.name.toUpperCase()}` }));
+    const env = { DEPLOY_TARGET: "staging", DEPLOY_COUNT: "3" };
+
+    test("uses the variable when no flag or positional is given", () => {
+      const parsed = { positional: [], flags: new Map() };
+      expect(resolveArgs(params, parsed, env)).toEqual(["staging", 3]);
+    });
+
+    test("prefers flags and positionals over the variable", () => {
+      const parsed = {
+        positional: ["prod"],
+        flags: new Map<string, string | boolean>([["count", "5"]]),
+      };
+      expect(resolveArgs(params, parsed, env)).toEqual(["prod", 5]);
+    });
+
+    test("ignores empty variables and names them when missing", () => {
+      const parsed = { positional: [], flags: new Map() };
+      expect(() => resolveArgs(params, parsed, { DEPLOY_TARGET: "" })).toThrow(
+        "Missing required argument: <target> (string) or set DEPLOY_TARGET",
+      );
+    });
+
+    test("names the variable when its value is invalid", () => {
+      const parsed = { positional: ["prod"], flags: new Map() };
+      expect(() =>
+        resolveArgs(params, parsed, { DEPLOY_COUNT: "many" }),
+      ).toThrow('DEPLOY_COUNT: Expected number, got "many"');
+    });
+  });
+
+  describe("file values", () => {
+    const dir = mkdtempSync(join(tmpdir(), "invoket-args-"));
+    const file = join(dir, "user.json");
+    writeFileSync(file, '{"name": "ada"}\n');
+    afterAll(() => rmSync(dir, { recursive: true }));
+
+    const params = makeParams([
+      { name: "user", type: "object" },
+      { name: "note", type: "string", required: false },
+    ]);
+
+    test("reads @file values and parses them by type", () => {
+      const parsed = {
+        positional: [`@${file}`],
+        flags: new Map<string, string | boolean>([["note", `@${file}`]]),
+      };
+      expect(resolveArgs(params, parsed)).toEqual([
+        { name: "ada" },
+        '{"name": "ada"}',
+      ]);
+    });
+
+    test("passes @@ values through with one @", () => {
+      const parsed = { positional: ["{}", "@@types/node"], flags: new Map() };
+      expect(resolveArgs(params, parsed)).toEqual([{}, "@types/node"]);
+    });
+
+    test("reports missing files", () => {
+      const parsed = { positional: [`@${dir}/nope.json`], flags: new Map() };
+      expect(() => resolveArgs(params, parsed)).toThrow(
+        `File not found: ${dir}/nope.json`,
+      );
+    });
+  });
+
   test("flags anywhere in positional list work", () => {
     const params = makeParams([
       { name: "name", type: "string" },
@@ -1449,7 +1322,7 @@ describe("resolveArgs", () => {
       positional: ["World"],
       flags: new Map<string, string | boolean>([["count", "2"]]),
     };
-    const result = resolveArgs(params, parsed, coerceArg);
+    const result = resolveArgs(params, parsed);
     expect(result).toEqual(["World", 2]);
   });
 });
@@ -1479,6 +1352,12 @@ describe("parseCliArgs", () => {
     expect(result.flags.get("n")).toBe("World");
   });
 
+  test("takes - as a flag value for stdin", () => {
+    const result = parseCliArgs(["--body", "-", "-"]);
+    expect(result.flags.get("body")).toBe("-");
+    expect(result.positional).toEqual(["-"]);
+  });
+
   test("parses boolean flag without value", () => {
     const result = parseCliArgs(["--verbose"]);
     expect(result.positional).toEqual([]);
@@ -1546,6 +1425,64 @@ describe("parseCliArgs", () => {
     expect(result.flags.get("verbose")).toBe(true);
     expect(result.flags.get("name")).toBe("World");
   });
+
+  describe("with param metadata", () => {
+    const params: ParamMeta[] = [
+      {
+        name: "force",
+        type: "boolean",
+        required: false,
+        isRest: false,
+        flag: { long: "--force", short: "-f" },
+      },
+      {
+        name: "verbose",
+        type: "boolean",
+        required: false,
+        isRest: false,
+        flag: { long: "--verbose", short: "-v" },
+      },
+      {
+        name: "name",
+        type: "string",
+        required: true,
+        isRest: false,
+        flag: { long: "--name", short: "-n" },
+      },
+    ];
+
+    test("never takes a value for a switch", () => {
+      const result = parseCliArgs(["--force", "build", "-v", "x"], params);
+      expect(result.flags.get("force")).toBe(true);
+      expect(result.flags.get("v")).toBe(true);
+      expect(result.positional).toEqual(["build", "x"]);
+    });
+
+    test("still reads --switch=value", () => {
+      const result = parseCliArgs(["--force=false"], params);
+      expect(result.flags.get("force")).toBe("false");
+    });
+
+    test("expands bundled short switches", () => {
+      const result = parseCliArgs(["-fv", "build"], params);
+      expect(result.flags.get("f")).toBe(true);
+      expect(result.flags.get("v")).toBe(true);
+      expect(result.positional).toEqual(["build"]);
+    });
+
+    test("lets the last flag of a bundle take a value", () => {
+      const result = parseCliArgs(["-fn", "World"], params);
+      expect(result.flags.get("f")).toBe(true);
+      expect(result.flags.get("n")).toBe("World");
+      expect(result.positional).toEqual([]);
+    });
+
+    test("leaves unknown bundles as positional", () => {
+      const result = parseCliArgs(["-fx", "-12"], params);
+      expect(result.flags.size).toBe(0);
+      expect(result.positional).toEqual(["-fx", "-12"]);
+    });
+  });
 });
 
 // =============================================================================
@@ -1751,7 +1688,7 @@ describe("task-specific help", () => {
     expect(result.exitCode).toBe(0);
     const out = result.stdout.toString();
     expect(out).toContain("[packages...]");
-    expect(out).toContain("array...");
+    expect(out).toContain("string...");
   });
 
   test("shows description in task help", async () => {
@@ -0,0 +1,112 @@
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadConfig } from "../src/config";
+
+const root = mkdtempSync(join(tmpdir(), "invoket-config-"));
+const system = join(root, "system");
+const user = join(root, "user");
+const project = join(root, "project");
+
+afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+function write(dir: string, file: string, content: unknown) {
+  writeFileSync(
+    join(dir, file),
+    typeof content === "string" ? content : JSON.stringify(content),
+  );
+}
+
+describe("loadConfig", () => {
+  beforeEach(() => {
+    for (const dir of [system, user, project]) {
+      rmSync(dir, { recursive: true, force: true });
+      mkdirSync(dir, { recursive: true });
+    }
+  });
+
+  const load = (env: Record<string, string> = {}) =>
+    loadConfig({ system, user, project, env });
+
+  test("returns an empty config without files", async () => {
+    expect(await load()).toEqual({});
+  });
+
+  test("merges system, user, project and environment in order", async () => {
+    write(system, "invoket.json", { echo: true, hide: true, team: "core" });
+    write(user, "invoket.json", { hide: false, deploy: { region: "eu" } });
+    write(project, "invoket.json", { warn: true, deploy: { bucket: "b" } });
+
+    expect(await load({ INVOKET_RUN_ECHO: "false" })).toEqual({
+      echo: false,
+      hide: false,
+      warn: true,
+      team: "core",
+      deploy: { region: "eu", bucket: "b" },
+    });
+  });
+
+  test("reads package.json, invoket.json and invoket.config.ts", async () => {
+    write(project, "package.json", {
+      name: "app",
+      invoket: { echo: true, source: "package" },
+    });
+    write(project, "invoket.json", { source: "json" });
+    write(
+      project,
+      "invoket.config.ts",
+      `export default { warn: true, source: "ts" };`,
+    );
+
+    expect(await load()).toEqual({ echo: true, warn: true, source: "ts" });
+  });
+
+  test("ignores package.json without an invoket section", async () => {
+    write(project, "package.json", { name: "app" });
+    expect(await load()).toEqual({});
+  });
+
+  test("resolves cwd against the config's directory", async () => {
+    write(project, "invoket.json", { cwd: "web" });
+    expect((await load()).cwd).toBe(join(project, "web"));
+
+    const fromEnv = await load({ INVOKET_RUN_CWD: "/srv/app" });
+    expect(fromEnv.cwd).toBe("/srv/app");
+  });
+
+  test("rejects run options of the wrong type", async () => {
+    write(project, "invoket.json", { echo: "yes" });
+    await expect(load()).rejects.toThrow(
+      `${join(project, "invoket.json")}: echo: Expected boolean, got "yes"`,
+    );
+  });
+
+  test("merges env and rejects env values that are not strings", async () => {
+    write(user, "invoket.json", { env: { STAGE: "dev", REGION: "eu" } });
+    write(project, "invoket.json", { env: { STAGE: "prod" } });
+    expect((await load()).env).toEqual({ STAGE: "prod", REGION: "eu" });
+
+    write(project, "invoket.json", { env: "staging" });
+    await expect(load()).rejects.toThrow(
+      `${join(project, "invoket.json")}: env: Expected object of strings, got "staging"`,
+    );
+  });
+
+  test("rejects prefix", async () => {
+    write(project, "invoket.json", { prefix: "oops" });
+    await expect(load()).rejects.toThrow(
+      `${join(project, "invoket.json")}: prefix: Cannot be set in configuration`,
+    );
+  });
+
+  test("rejects invalid JSON and environment values", async () => {
+    write(user, "invoket.json", "{ echo: true");
+    await expect(load()).rejects.toThrow(join(user, "invoket.json"));
+
+    rmSync(join(user, "invoket.json"));
+    await expect(load({ INVOKET_RUN_WARN: "maybe" })).rejects.toThrow(
+      'INVOKET_RUN_WARN: Expected boolean, got "maybe"',
+    );
+  });
+});
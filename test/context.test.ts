@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach } from "bun:test";
 import { Context } from "../src/context";
 import { existsSync, mkdirSync, rmSync } from "fs";
+import { $ } from "bun";
 
 describe("Context", () => {
   let context: Context;
@@ -325,4 +326,150 @@ describe("Context", () => {
       expect(streamContext.config.stream).toBe(true);
     });
   });
+
+  describe("parallel()", () => {
+    test("should return results in input order", async () => {
+      const results = await context.parallel([
+        async () => {
+          await Bun.sleep(20);
+          return "slow";
+        },
+        () => "fast",
+      ]);
+      expect(results).toEqual(["slow", "fast"]);
+    });
+
+    test("should respect the concurrency limit", async () => {
+      let running = 0;
+      let peak = 0;
+      const fn = async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await Bun.sleep(10);
+        running--;
+      };
+
+      await context.parallel([fn, fn, fn, fn, fn], { limit: 2 });
+      expect(peak).toBe(2);
+    });
+
+    test("should run everything and then throw on failures", async () => {
+      const ran: number[] = [];
+      try {
+        await context.parallel([
+          async () => {
+            throw new Error("boom");
+          },
+          async () => {
+            ran.push(2);
+          },
+        ]);
+        expect(true).toBe(false); // Should not reach here
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(AggregateError);
+        expect(error.message).toBe("1 of 2 parallel functions failed");
+        expect(error.errors[0].message).toBe("boom");
+      }
+      expect(ran).toEqual([2]);
+    });
+
+    test("should handle an empty list", async () => {
+      expect(await context.parallel([])).toEqual([]);
+    });
+
+    test("should reject an invalid limit", async () => {
+      expect(context.parallel([() => 1], { limit: 0 })).rejects.toThrow(
+        "Invalid parallel limit: 0",
+      );
+    });
+  });
+
+  describe("prefix option", () => {
+    // Output goes to the process streams, so run in a child process
+    const CONTEXT_PATH = `${import.meta.dir}/../src/context.ts`;
+    const runScript = (script: string) =>
+      $`bun -e ${`import { Context } from "${CONTEXT_PATH}"; ${script}`}`.quiet();
+
+    test("should prefix captured output lines", async () => {
+      const result = await runScript(
+        `await new Context({ prefix: "build" }).run("printf 'a\\nb\\n'")`,
+      );
+      expect(result.stdout.toString()).toBe("[build] a\n[build] b\n");
+    });
+
+    test("should prefix streamed output lines", async () => {
+      const result = await runScript(
+        `await new Context({ prefix: "web" }).run("echo one; echo two >&2; printf three", { stream: true })`,
+      );
+      expect(result.stdout.toString()).toBe("[web] one\n[web] three\n");
+      expect(result.stderr.toString()).toBe("[web] two\n");
+    });
+
+    test("should not change captured result", async () => {
+      const result = await context.run("echo raw", {
+        hide: true,
+        prefix: "x",
+      });
+      expect(result.stdout).toBe("raw\n");
+    });
+  });
+
+  describe("env option", () => {
+    test("should add variables to the command's environment", async () => {
+      const result = await context.run("echo $GREETING-$HOME", {
+        hide: true,
+        env: { GREETING: "hi" },
+      });
+      expect(result.stdout).toBe(`hi-${process.env.HOME}\n`);
+    });
+
+    test("should merge per-call variables over configured ones", async () => {
+      const ctx = new Context({ env: { A: "config", B: "config" } });
+      const result = await ctx.run("echo $A-$B", {
+        hide: true,
+        env: { B: "call" },
+      });
+      expect(result.stdout).toBe("config-call\n");
+    });
+  });
+
+  describe("dry option", () => {
+    const CONTEXT_PATH = `${import.meta.dir}/../src/context.ts`;
+    const runScript = (script: string) =>
+      $`bun -e ${`import { Context } from "${CONTEXT_PATH}"; ${script}`}`.quiet();
+
+    test("should print commands instead of running them", async () => {
+      const result = await runScript(
+        `const c = new Context({ dry: true, cwd: "/tmp" });
+         const r = await c.run("touch /tmp/invoket-dry-marker", { env: { STAGE: "prod" } });
+         await c.sudo("reboot");
+         console.log(JSON.stringify(r));`,
+      );
+      expect(result.stdout.toString()).toBe(
+        "[dry] $ touch /tmp/invoket-dry-marker\n" +
+          "[dry]   cwd: /tmp\n" +
+          "[dry]   env: STAGE=prod\n" +
+          "[dry] $ sudo reboot\n" +
+          "[dry]   cwd: /tmp\n" +
+          JSON.stringify({
+            stdout: "",
+            stderr: "",
+            code: 0,
+            ok: true,
+            failed: false,
+          }) +
+          "\n",
+      );
+      expect(existsSync("/tmp/invoket-dry-marker")).toBe(false);
+    });
+
+    test("should prefix dry-run output", async () => {
+      const result = await runScript(
+        `await new Context({ dry: true, prefix: "web", cwd: "/srv" }).run("make")`,
+      );
+      expect(result.stdout.toString()).toBe(
+        "[web] [dry] $ make\n[web] [dry]   cwd: /srv\n",
+      );
+    });
+  });
 });
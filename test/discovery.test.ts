@@ -0,0 +1,720 @@
+import { describe, test, expect } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  discoverAllTasks,
+  discoverRuntimeNamespaces,
+  findUndocumentedTasks,
+} from "../src/discovery";
+import { defineType } from "../src/types";
+
+describe("discoverAllTasks", () => {
+  test("extracts methods, params and flags", () => {
+    const source = `
+      export class Tasks {
+        /**
+         * Say hello
+         * @flag name -n --who
+         */
+        async hello(c: Context, name: string, count: number = 1) {}
+      }
+    `;
+    const { root } = discoverAllTasks(source);
+    expect(root.get("hello")).toEqual({
+      description: "Say hello",
+      jsdoc: "Say hello\n@flag name -n --who",
+      params: [
+        {
+          name: "name",
+          type: "string",
+          required: true,
+          isRest: false,
+          flag: { long: "--name", short: "-n", aliases: ["--who"] },
+        },
+        {
+          name: "count",
+          type: "number",
+          required: false,
+          isRest: false,
+          default: "1",
+          flag: { long: "--count", short: undefined, aliases: undefined },
+        },
+      ],
+    });
+  });
+
+  test("survives nested braces in method bodies", () => {
+    const source = `
+      export class Tasks {
+        /** First */
+        async first(c: Context) {
+          if (true) {
+            const x = { a: { b: 1 } };
+}
+        }
+
+        /** Second */
+        async second(c: Context) {}
+      }
+    `;
+    const { root } = discoverAllTasks(source);
+    expect([...root.keys()]).toEqual(["first", "second"]);
+  });
+
+  test("handles multi-line parameter lists", () => {
+    const source = `
+      export class Tasks {
+        /** Deploy */
+        async deploy(
+          c: Context,
+          env: string,
+          replicas: number,
+        ) {}
+      }
+    `;
+    const params = discoverAllTasks(source).root.get("deploy")!.params;
+    expect(params.map((p) => [p.name, p.type])).toEqual([
+      ["env", "string"],
+      ["replicas", "number"],
+    ]);
+  });
+
+  test("handles generics and defaults containing commas", () => {
+    const source = `
+      export class Tasks {
+        /** Configure */
+        async configure(
+          c: Context,
+          weights: Map<string, number>,
+          tags: string[] = ["a", "b"],
+          verbose: boolean = false,
+        ) {}
+      }
+    `;
+    const params = discoverAllTasks(source).root.get("configure")!.params;
+    expect(params.map((p) => [p.name, p.type, p.required])).toEqual([
+      ["weights", "object", true],
+      ["tags", "array", false],
+      ["verbose", "boolean", false],
+    ]);
+  });
+
+  test("keeps params before a rest parameter", () => {
+    const source = `
+      export class Tasks {
+        /** Exec */
+        async exec(c: Context, cmd: string, ...args: string[]) {}
+      }
+    `;
+    const params = discoverAllTasks(source).root.get("exec")!.params;
+    expect(params.map((p) => [p.name, p.isRest])).toEqual([
+      ["cmd", false],
+      ["args", true],
+    ]);
+    expect(params[1].flag).toBeUndefined();
+  });
+
+  test("treats optional and union-with-undefined params as optional", () => {
+    const source = `
+      export class Tasks {
+        /** Tag */
+        async tag(c: Context, name?: string, note: string | undefined = undefined) {}
+      }
+    `;
+    const params = discoverAllTasks(source).root.get("tag")!.params;
+    expect(params.map((p) => [p.type, p.required])).toEqual([
+      ["string", false],
+      ["string", false],
+    ]);
+  });
+
+  test("parses literal unions, enums and aliases as choices", () => {
+    const source = `
+      enum Level { Low, High = 5, Max }
+      enum Region { Eu = "eu-west-1", Us = "us-east-1" }
+      type Env = "dev" | "staging" | "prod";
+
+      export class Tasks {
+        /** Deploy */
+        async deploy(
+          c: Context,
+          env: Env,
+          region: Region,
+          level: Level,
+          retries: 1 | 2 | 3 = 1,
+          mode?: "fast" | "safe",
+          dry: true | false = false,
+        ) {}
+      }
+    `;
+    const params = discoverAllTasks(source).root.get("deploy")!.params;
+    expect(params.map((p) => [p.name, p.type, p.choices])).toEqual([
+      ["env", "choice", ["dev", "staging", "prod"]],
+      ["region", "choice", ["eu-west-1", "us-east-1"]],
+      ["level", "choice", [0, 5, 6]],
+      ["retries", "choice", [1, 2, 3]],
+      ["mode", "choice", ["fast", "safe"]],
+      ["dry", "boolean", undefined],
+    ]);
+    expect(params[4].required).toBe(false);
+    expect(params[1].names).toBeUndefined();
+    expect(params[2].names).toEqual(["Low", "High", "Max"]);
+  });
+
+  test("keeps enum member names through unions", () => {
+    const source = `
+      enum Level { Low, High }
+      export class Tasks {
+        /** Run */
+        async run(c: Context, level: Level | "auto") {}
+      }
+    `;
+    const [level] = discoverAllTasks(source).root.get("run")!.params;
+    expect(level.choices).toEqual([0, 1, "auto"]);
+    expect(level.names).toEqual(["Low", "High", "auto"]);
+  });
+
+  test("tracks element types of arrays and rest params", () => {
+    const source = `
+      type Env = "dev" | "prod";
+
+      export class Tasks {
+        /** Open */
+        async open(
+          c: Context,
+          ids: number[],
+          envs: Array<Env>,
+          raw: any[],
+          ...ports: readonly number[]
+        ) {}
+      }
+    `;
+    const params = discoverAllTasks(source).root.get("open")!.params;
+    expect(params.map((p) => [p.type, p.elementType, p.choices])).toEqual([
+      ["array", "number", undefined],
+      ["array", "choice", ["dev", "prod"]],
+      ["array", undefined, undefined],
+      ["array", "number", undefined],
+    ]);
+  });
+
+  test("resolves object params into schemas", () => {
+    const source = `
+      interface Paging {
+        limit?: number;
+      }
+
+      interface SearchParams extends Paging {
+        query: string;
+        filters: { tags: string[]; owner: string | null };
+        sort: "asc" | "desc";
+        extra: any;
+        when: Date;
+      }
+
+      interface Tree {
+        name: string;
+        children: Tree[];
+      }
+
+      export class Tasks {
+        /** Search */
+        async search(c: Context, params: SearchParams, tree: Tree, raw: object) {}
+      }
+    `;
+    const [params, tree, raw] =
+      discoverAllTasks(source).root.get("search")!.params;
+
+    expect(params.schema).toEqual({
+      type: "object",
+      properties: {
+        limit: { type: "number", optional: true },
+        query: { type: "string" },
+        filters: {
+          type: "object",
+          properties: {
+            tags: { type: "array", items: { type: "string" } },
+            owner: { type: "string", nullable: true },
+          },
+        },
+        sort: { type: "choice", choices: ["asc", "desc"] },
+        when: { type: "date" },
+      },
+    });
+    expect(tree.schema!.properties!.children).toEqual({
+      type: "array",
+      items: { type: "object" },
+    });
+    expect(raw.schema).toBeUndefined();
+  });
+
+  test("recognises Date, URL, bigint, Duration and Path types", () => {
+    const source = `
+      import type { Context, Duration, Path } from "invoket/context";
+
+      export class Tasks {
+        /**
+         * Backup
+         * @exists src
+         */
+        async backup(
+          c: Context,
+          since: Date,
+          target: URL,
+          size: bigint,
+          every: Duration = 60000,
+          src: Path,
+          limit = 10n,
+          ...files: Path[]
+        ) {}
+      }
+    `;
+    const params = discoverAllTasks(source).root.get("backup")!.params;
+    expect(params.map((p) => p.type)).toEqual([
+      "date",
+      "url",
+      "bigint",
+      "duration",
+      "path",
+      "bigint",
+      "array",
+    ]);
+    expect(params[6].elementType).toBe("path");
+    expect(params[4].exists).toBe(true);
+    expect(params[0].exists).toBeUndefined();
+  });
+
+  test("recognises types registered with defineType", () => {
+    defineType("GitRef", { parse: (value) => value });
+    const source = `
+      type GitRef = string;
+      interface Release { ref: GitRef }
+
+      export class Tasks {
+        /** Release */
+        async release(c: Context, ref: GitRef, opts: Release, ...more: GitRef[]) {}
+      }
+    `;
+    const [ref, opts, more] =
+      discoverAllTasks(source).root.get("release")!.params;
+    expect(ref.type).toBe("custom");
+    expect(ref.custom).toBe("GitRef");
+    expect(opts.schema!.properties!.ref).toEqual({
+      type: "custom",
+      custom: "GitRef",
+    });
+    expect(more.elementType).toBe("custom");
+    expect(more.custom).toBe("GitRef");
+  });
+
+  test("prefers a tasks file's own declaration of Path", () => {
+    const source = `
+      interface Path { from: string; to: string }
+      export class Tasks {
+        /** Route */
+        async route(c: Context, path: Path) {}
+      }
+    `;
+    const [path] = discoverAllTasks(source).root.get("route")!.params;
+    expect(path.type).toBe("object");
+    expect(Object.keys(path.schema!.properties!)).toEqual(["from", "to"]);
+  });
+
+  test("marks @flatten object params", () => {
+    const source = `
+      export class Tasks {
+        /**
+         * Search
+         * @flatten params
+         */
+        async search(c: Context, params: { query: string }, other: { id: number }) {}
+      }
+    `;
+    const [params, other] = discoverAllTasks(source).root.get("search")!.params;
+    expect(params.flatten).toBe(true);
+    expect(other.flatten).toBeUndefined();
+  });
+
+  test("binds params to environment variables with @env", () => {
+    const source = `
+      export class Tasks {
+        /**
+         * Deploy
+         * @flag target -t
+         * @env target DEPLOY_TARGET
+         */
+        async deploy(c: Context, target: string, count: number = 1) {}
+      }
+    `;
+    const [target, count] = discoverAllTasks(source).root.get("deploy")!.params;
+    expect(target.env).toBe("DEPLOY_TARGET");
+    expect(target.flag?.short).toBe("-t");
+    expect(count.env).toBeUndefined();
+  });
+
+  test("reads @param descriptions and multi-line task descriptions", () => {
+    const source = `
+      export class Tasks {
+        /**
+         * Deploy the app
+         * to every region.
+         *
+         * @param target Where to deploy
+         * @param {number} [count=1] - How many
+         *   instances to start
+         * @flag target -t
+         * @param hosts Extra hosts
+         */
+        async deploy(c: Context, target: string, count = 1, ...hosts: string[]) {}
+
+        /** Build */
+        async build(c: Context, out: string) {}
+      }
+    `;
+    const { root } = discoverAllTasks(source);
+    const deploy = root.get("deploy")!;
+    expect(deploy.description).toBe("Deploy the app");
+    expect(deploy.details).toBe("Deploy the app\nto every region.");
+    expect(deploy.params.map((p) => p.description)).toEqual([
+      "Where to deploy",
+      "How many instances to start",
+      "Extra hosts",
+    ]);
+    expect(deploy.params[0].flag?.short).toBe("-t");
+
+    const build = root.get("build")!;
+    expect(build.details).toBeUndefined();
+    expect(build.params[0].description).toBeUndefined();
+  });
+
+  test("resolves types imported from relative paths", () => {
+    const dir = mkdtempSync(join(tmpdir(), "invoket-discovery-"));
+    try {
+      writeFileSync(
+        join(dir, "types.ts"),
+        `export * from "./env";
+         export interface Options { env: Env; retries: number }`,
+      );
+      writeFileSync(join(dir, "env.ts"), `export type Env = "dev" | "prod";`);
+      const source = `
+        import type { Options as DeployOptions, Env } from "./types";
+
+        export class Tasks {
+          /** Deploy */
+          async deploy(c: Context, env: Env, options: DeployOptions) {}
+        }
+      `;
+
+      const [env, options] = discoverAllTasks(
+        source,
+        join(dir, "tasks.ts"),
+      ).root.get("deploy")!.params;
+      expect(env.choices).toEqual(["dev", "prod"]);
+      expect(options.schema!.properties).toEqual({
+        env: { type: "choice", choices: ["dev", "prod"] },
+        retries: { type: "number" },
+      });
+
+      // Without a path, imports can't be followed
+      const unresolved = discoverAllTasks(source).root.get("deploy")!.params;
+      expect(unresolved[1].schema).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+
+  test("discovers methods without JSDoc", () => {
+    const source = `
+      export class Tasks {
+        async bare(c: Context, n: number) {}
+      }
+    `;
+    const meta = discoverAllTasks(source).root.get("bare");
+    expect(meta?.description).toBe("");
+    expect(meta?.params[0].type).toBe("number");
+  });
+
+  test("discovers sync methods and arrow-function properties", () => {
+    const source = `
+      export class Tasks {
+        /** Sync */
+        clean(c: Context, dir: string) {}
+
+        /** Returns a promise */
+        fetch(c: Context, retries: number): Promise<void> {
+          return Promise.resolve();
+        }
+
+        /** Arrow */
+        build = async (c: Context, target: string = "prod") => {};
+
+        /** Function expression */
+        lint = function (c: Context, fix: boolean) {};
+
+        config = { debug: true };
+      }
+    `;
+    const { root } = discoverAllTasks(source);
+    expect([...root.keys()]).toEqual(["clean", "fetch", "build", "lint"]);
+    expect(root.get("build")).toEqual({
+      description: "Arrow",
+      jsdoc: "Arrow",
+      params: [
+        {
+          name: "target",
+          type: "string",
+          required: false,
+          isRest: false,
+          default: '"prod"',
+          flag: { long: "--target", short: undefined, aliases: undefined },
+        },
+      ],
+    });
+    expect(root.get("lint")?.params[0].type).toBe("boolean");
+  });
+
+  test("skips private, static and underscore members", () => {
+    const source = `
+      export class Tasks {
+        async visible(c: Context) {}
+        async _hidden(c: Context) {}
+        private async secret(c: Context) {}
+        static async factory(c: Context) {}
+        async #internal(c: Context) {}
+      }
+    `;
+    expect([...discoverAllTasks(source).root.keys()]).toEqual(["visible"]);
+  });
+
+  test("includes methods from same-file base classes", () => {
+    const source = `
+      class Base {
+        /** From base */
+        async shared(c: Context, n: number) {}
+        /** Overridden */
+        async both(c: Context) {}
+      }
+      export class Tasks extends Base {
+        /** From child */
+        async both(c: Context, x: string) {}
+      }
+    `;
+    const { root } = discoverAllTasks(source);
+    expect(root.get("shared")?.params[0].type).toBe("number");
+    expect(root.get("both")?.description).toBe("From child");
+  });
+
+  test("discovers namespaces and class doc", () => {
+    const source = `
+      class Db {
+        /** Migrate */
+        async migrate(c: Context, direction: string = "up") {}
+      }
+      class Internal {
+        async secret(c: Context) {}
+      }
+
+      /**
+       * Project tasks
+       * @author someone
+       */
+      export class Tasks {
+        db = new Db();
+        _internal = new Internal();
+      }
+    `;
+    const { namespaced, classDoc } = discoverAllTasks(source);
+    expect([...namespaced.keys()]).toEqual(["db"]);
+    expect(namespaced.get("db")?.get("migrate")?.params[0].required).toBe(
+      false,
+    );
+    expect(classDoc).toBe("Project tasks");
+  });
+
+  test("discovers nested namespaces recursively", () => {
+    const source = `
+      class Aws {
+        /** Deploy to AWS */
+        async deploy(c: Context, region: string) {}
+      }
+      class Infra {
+        aws = new Aws();
+        _hidden = new Aws();
+        /** Infra status */
+        async status(c: Context) {}
+      }
+      class Ops {
+        infra = new Infra();
+      }
+      export class Tasks {
+        ops = new Ops();
+      }
+    `;
+    const { namespaced } = discoverAllTasks(source);
+    expect([...namespaced.keys()]).toEqual(["ops:infra", "ops:infra:aws"]);
+    expect(namespaced.get("ops:infra:aws")?.get("deploy")?.params[0].name).toBe(
+      "region",
+    );
+  });
+
+  test("stops on self-referencing namespace classes", () => {
+    const source = `
+      class Loop {
+        inner = new Loop();
+        async go(c: Context) {}
+      }
+      export class Tasks {
+        loop = new Loop();
+      }
+    `;
+    expect([...discoverAllTasks(source).namespaced.keys()]).toEqual(["loop"]);
+  });
+
+  test("extracts @depends, @pre and @post tags", () => {
+    const source = `
+      export class Tasks {
+        /**
+         * Deploy
+         * @depends build test
+         * @pre lint, build
+         * @post notify
+         */
+        async deploy(c: Context) {}
+
+        /** Build */
+        async build(c: Context) {}
+      }
+    `;
+    const { root } = discoverAllTasks(source);
+    expect(root.get("deploy")?.depends).toEqual(["build", "test", "lint"]);
+    expect(root.get("deploy")?.post).toEqual(["notify"]);
+    expect(root.get("build")?.depends).toBeUndefined();
+  });
+
+  test("ends the description at an inline tag", () => {
+    const source = `
+      export class Tasks {
+        /** Run the tests @depends build */
+        async test(c: Context) {}
+
+        /**
+         * Release the app
+         * to every region @post notify
+         */
+        async release(c: Context) {}
+      }
+    `;
+    const { root } = discoverAllTasks(source);
+    expect(root.get("test")).toMatchObject({
+      description: "Run the tests",
+      depends: ["build"],
+    });
+    expect(root.get("release")).toMatchObject({
+      description: "Release the app",
+      details: "Release the app\nto every region",
+      post: ["notify"],
+    });
+  });
+
+  test("keeps @words that are not tags in the description", () => {
+    const source = `
+      /** Deploy tasks for @ops */
+      export class Tasks {
+        /** Ping @here in the #deploys channel */
+        async ping(c: Context) {}
+
+        /** Install @types packages @depends ping */
+        async install(c: Context) {}
+      }
+    `;
+    const { root, classDoc } = discoverAllTasks(source);
+    expect(classDoc).toBe("Deploy tasks for @ops");
+    expect(root.get("ping")?.description).toBe(
+      "Ping @here in the #deploys channel",
+    );
+    expect(root.get("install")).toMatchObject({
+      description: "Install @types packages",
+      depends: ["ping"],
+    });
+  });
+
+  test("returns empty results without a Tasks class", () => {
+    const { root, namespaced, classDoc } = discoverAllTasks("class Other {}");
+    expect(root.size).toBe(0);
+    expect(namespaced.size).toBe(0);
+    expect(classDoc).toBeNull();
+  });
+});
+
+describe("findUndocumentedTasks", () => {
+  test("lists root and namespaced tasks without descriptions", () => {
+    const source = `
+      class Db {
+        /** Migrate */
+        async migrate(c: Context) {}
+        async seed(c: Context) {}
+      }
+      export class Tasks {
+        db = new Db();
+        /** Build */
+        async build(c: Context) {}
+        async clean(c: Context) {}
+      }
+    `;
+    expect(findUndocumentedTasks(discoverAllTasks(source))).toEqual([
+      "clean",
+      "db:seed",
+    ]);
+  });
+});
+
+describe("discoverRuntimeNamespaces", () => {
+  test("discovers arrow-function tasks on imported namespaces", () => {
+    class Ns {
+      arrow = async () => {};
+      _hidden = async () => {};
+      async meth() {}
+    }
+    class Tasks {
+      ns = new Ns();
+    }
+    const discovered = discoverAllTasks(`export class Tasks {}`);
+    discoverRuntimeNamespaces(new Tasks(), discovered);
+
+    expect([...discovered.namespaced.get("ns")!.keys()]).toEqual([
+      "arrow",
+      "meth",
+    ]);
+  });
+
+  test("discovers nested runtime namespaces without overriding source", () => {
+    class Aws {
+      async deploy() {}
+    }
+    class Infra {
+      aws = new Aws();
+      async status() {}
+    }
+    class Tasks {
+      infra = new Infra();
+    }
+    const discovered = discoverAllTasks(`
+      class Infra {
+        /** Typed status */
+        async status(c: Context, verbose: boolean) {}
+      }
+      export class Tasks {
+        infra = new Infra();
+      }
+    `);
+    discoverRuntimeNamespaces(new Tasks(), discovered);
+
+    expect(discovered.namespaced.get("infra")?.get("status")?.description).toBe(
+      "Typed status",
+    );
+    expect([...discovered.namespaced.get("infra:aws")!.keys()]).toEqual([
+      "deploy",
+    ]);
+  });
+});
@@ -12,10 +12,22 @@ const TEST_DIR = "/tmp/invoket-integration-test";
 const CLI_PATH = join(import.meta.dir, "../../src/cli.ts");
 const CONTEXT_PATH = join(import.meta.dir, "../../src/context.ts");
 
-// Helper to run CLI in test directory
-async function runCLI(...args: string[]) {
+// Where to run the CLI and what to add to its environment
+interface RunCLIOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+}
+
+// Helper to run CLI in test directory; a leading options object changes
+// the directory or adds environment variables
+async function runCLI(...input: [RunCLIOptions, ...string[]] | string[]) {
+  const [options, args] =
+    typeof input[0] === "object"
+      ? [input[0], input.slice(1) as string[]]
+      : [{} as RunCLIOptions, input as string[]];
   const result = await $`bun ${CLI_PATH} ${args}`
-    .cwd(TEST_DIR)
+    .cwd(options.cwd ?? TEST_DIR)
+    .env({ ...process.env, ...options.env })
     .quiet()
     .nothrow();
   return {
@@ -210,10 +222,14 @@ export class Tasks {
 }
 `);
 
-      const result = await runCLI("toggle", "true");
+      const result = await runCLI("toggle", "--flag");
       expect(result.code).toBe(0);
       expect(result.stdout).toContain("Flag: true");
       expect(result.stdout).toContain("type: boolean");
+
+      const absent = await runCLI("toggle");
+      expect(absent.code).toBe(0);
+      expect(absent.stdout).toContain("Flag: false");
     });
 
     test("should execute task with JSON object argument", async () => {
@@ -314,6 +330,75 @@ export class Tasks {
     });
   });
 
+  describe("Nested Namespaces", () => {
+    const nestedTasks = `
+class AwsNamespace {
+  /** Deploy to AWS */
+  async deploy(c: Context, region: string = "us-east-1") {
+    console.log("Deploying to", region);
+  }
+}
+
+class InfraNamespace {
+  aws = new AwsNamespace();
+  _secret = new AwsNamespace();
+
+  /** Show infra status */
+  async status(c: Context) {
+    console.log("Infra OK");
+  }
+}
+
+export class Tasks {
+  infra = new InfraNamespace();
+}
+`;
+
+    test("should execute deeply nested task", async () => {
+      writeTasks(nestedTasks);
+
+      const result = await runCLI("infra:aws:deploy", "eu-west-1");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("Deploying to eu-west-1");
+    });
+
+    test("should accept mixed separators", async () => {
+      writeTasks(nestedTasks);
+
+      const result = await runCLI("infra.aws:deploy");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("Deploying to us-east-1");
+    });
+
+    test("should render nested groups in --list", async () => {
+      writeTasks(nestedTasks);
+
+      const result = await runCLI("--list");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("\ninfra:\n  infra:status");
+      expect(result.stdout).toContain(
+        "\n  infra:aws:\n    infra:aws:deploy [region]",
+      );
+      expect(result.stdout).not.toContain("_secret");
+    });
+
+    test("should reject private nested namespace", async () => {
+      writeTasks(nestedTasks);
+
+      const result = await runCLI("infra:_secret:deploy");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('private namespace "_secret"');
+    });
+
+    test("should fail on unknown nested namespace", async () => {
+      writeTasks(nestedTasks);
+
+      const result = await runCLI("infra:gcp:deploy");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain("Unknown namespace: infra:gcp");
+    });
+  });
+
   describe("Task-Specific Help", () => {
     test("should show task help with -h", async () => {
       writeTasks(`
@@ -327,7 +412,7 @@ export class Tasks {
       expect(result.code).toBe(0);
       expect(result.stdout).toContain("Usage: invt deploy");
       expect(result.stdout).toContain("<env>");
-      expect(result.stdout).toContain("[force]");
+      expect(result.stdout).toContain("[--force]");
       expect(result.stdout).toContain("Deploy to environment");
     });
 
@@ -350,6 +435,272 @@ export class Tasks {
     });
   });
 
+  describe("Scalar Types", () => {
+    const scalarTasks = () => `
+import type { Duration, Path } from "${CONTEXT_PATH}";
+
+export class Tasks {
+  /**
+   * Schedule a sync
+   * @exists src
+   */
+  async sync(c: Context, since: Date, endpoint: URL, every: Duration, src: Path, id: bigint = 1n) {
+    console.log(JSON.stringify({
+      since: since.toISOString(),
+      host: endpoint.host,
+      every,
+      src,
+      id: String(id),
+      types: [since instanceof Date, endpoint instanceof URL, typeof id],
+    }));
+  }
+}
+`;
+
+    test("should convert dates, URLs, durations, paths and bigints", async () => {
+      writeTasks(scalarTasks());
+      mkdirSync(join(TEST_DIR, "data"));
+
+      const result = await runCLI(
+        "sync",
+        "2024-01-31T00:00:00Z",
+        "https://api.example.com/v1",
+        "1h30m",
+        "data",
+        "--id",
+        "12345678901234567890",
+      );
+      expect(result.code).toBe(0);
+      expect(JSON.parse(result.stdout)).toEqual({
+        since: "2024-01-31T00:00:00.000Z",
+        host: "api.example.com",
+        every: 5_400_000,
+        src: join(TEST_DIR, "data"),
+        id: "12345678901234567890",
+        types: [true, true, "bigint"],
+      });
+    });
+
+    test("should report specific errors", async () => {
+      writeTasks(scalarTasks());
+
+      const badDuration = await runCLI(
+        "sync",
+        "2024-01-31",
+        "https://example.com",
+        "soon",
+        ".",
+      );
+      expect(badDuration.code).toBe(1);
+      expect(badDuration.stderr).toContain(
+        'Expected duration (e.g. 500ms, 30s, 5m or 1h30m), got "soon"',
+      );
+
+      const missing = await runCLI(
+        "sync",
+        "2024-01-31",
+        "https://example.com",
+        "5m",
+        "nope",
+      );
+      expect(missing.code).toBe(1);
+      expect(missing.stderr).toContain("Path not found: nope");
+    });
+
+    test("should label the types in help", async () => {
+      writeTasks(scalarTasks());
+
+      const result = await runCLI("sync", "-h");
+      expect(result.stdout).toMatch(/since\s+date\s+\(required\)/);
+      expect(result.stdout).toMatch(/endpoint\s+url\s+\(required\)/);
+      expect(result.stdout).toMatch(/every\s+duration\s+\(required\)/);
+      expect(result.stdout).toMatch(/src\s+path\s+\(required\)/);
+      expect(result.stdout).toMatch(/id\s+bigint\s+\(default: 1n\)/);
+    });
+  });
+
+  describe("Custom Types", () => {
+    const customTasks = () => `
+import { defineType } from "${CONTEXT_PATH}";
+
+type SemVer = { major: number; minor: number; patch: number };
+
+defineType("SemVer", {
+  describe: "version like 1.2.3",
+  parse(value: string): SemVer {
+    const match = value.match(/^(\\d+)\\.(\\d+)\\.(\\d+)$/);
+    if (!match) throw new Error("use major.minor.patch");
+    const [major, minor, patch] = match.slice(1).map(Number);
+    return { major, minor, patch };
+  },
+  complete: () => ["1.0.0", "2.0.0"],
+});
+
+export class Tasks {
+  /** Release a version */
+  async release(c: Context, version: SemVer) {
+    console.log(JSON.stringify(version));
+  }
+}
+`;
+
+    test("should parse arguments with the registered type", async () => {
+      writeTasks(customTasks());
+
+      const result = await runCLI("release", "2.1.0");
+      expect(result.code).toBe(0);
+      expect(JSON.parse(result.stdout)).toEqual({
+        major: 2,
+        minor: 1,
+        patch: 0,
+      });
+
+      const bad = await runCLI("release", "two");
+      expect(bad.code).toBe(1);
+      expect(bad.stderr).toContain(
+        'Expected version like 1.2.3, got "two": use major.minor.patch',
+      );
+    });
+
+    test("should use the type in help and completion", async () => {
+      writeTasks(customTasks());
+
+      const help = await runCLI("release", "-h");
+      expect(help.stdout).toMatch(
+        /version\s+SemVer\s+\(required\)\s+--version\n\s+version like 1\.2\.3/,
+      );
+
+      const complete = await runCLI("--complete", "--", "release", "2");
+      expect(complete.stdout.trim()).toBe("2.0.0");
+    });
+  });
+
+  describe("Default Values", () => {
+    const defaultTasks = `
+export class Tasks {
+  /** Greet someone */
+  async greet(c: Context, name: string, greeting: string = "Hello", enthusiasm: number = 1) {
+    console.log(\`\${greeting}, \${name}\${"!".repeat(enthusiasm)}\`);
+  }
+}
+`;
+
+    test("should apply defaults for skipped params before a later flag", async () => {
+      writeTasks(defaultTasks);
+
+      const result = await runCLI("greet", "World", "--enthusiasm", "3");
+      expect(result.code).toBe(0);
+      expect(result.stdout.trim()).toBe("Hello, World!!!");
+    });
+
+    test("should show default values in task help", async () => {
+      writeTasks(defaultTasks);
+
+      const result = await runCLI("greet", "-h");
+      expect(result.stdout).toContain('(default: "Hello")');
+      expect(result.stdout).toContain("(default: 1)");
+    });
+  });
+
+  describe("Boolean Switches", () => {
+    const switchTasks = `
+export class Tasks {
+  /**
+   * Clean output
+   * @flag force -f
+   * @flag verbose -v
+   */
+  async clean(c: Context, dir: string = "dist", force: boolean, verbose: boolean = false) {
+    console.log(\`clean \${dir} force=\${force} verbose=\${verbose}\`);
+  }
+
+  /** Build */
+  async build(c: Context, cache: boolean = true) {
+    console.log(\`build cache=\${cache}\`);
+  }
+}
+`;
+
+    test("should not consume the next argument as a value", async () => {
+      writeTasks(switchTasks);
+
+      const result = await runCLI("clean", "--force", "build");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toBe(
+        "clean dist force=true verbose=false\nbuild cache=true\n",
+      );
+    });
+
+    test("should negate with --no- and bundle short switches", async () => {
+      writeTasks(switchTasks);
+
+      const negated = await runCLI("build", "--no-cache");
+      expect(negated.stdout.trim()).toBe("build cache=false");
+
+      const bundled = await runCLI("clean", "-fv", "out");
+      expect(bundled.stdout.trim()).toBe("clean out force=true verbose=true");
+    });
+
+    test("should show switches as flags in help", async () => {
+      writeTasks(switchTasks);
+
+      const result = await runCLI("clean", "-h");
+      expect(result.stdout).toContain(
+        "Usage: invt clean [dir] [--force] [--verbose]",
+      );
+      expect(result.stdout).toMatch(/force\s+boolean\s+\(optional\)/);
+    });
+  });
+
+  describe("Parameter Descriptions", () => {
+    const describedTasks = `
+export class Tasks {
+  /**
+   * Deploy the app
+   * Builds first, then uploads to every region.
+   * @param env Target environment
+   * @param {number} replicas - Instances per region
+   */
+  async deploy(c: Context, env: string, replicas: number = 2) {}
+}
+`;
+
+    test("should show the full description and param descriptions in help", async () => {
+      writeTasks(describedTasks);
+
+      const result = await runCLI("deploy", "-h");
+      expect(result.stdout).toContain(
+        "Deploy the app\nBuilds first, then uploads to every region.",
+      );
+      expect(result.stdout).toMatch(
+        /env\s+string\s+\(required\)\s+--env\n\s+Target environment/,
+      );
+      expect(result.stdout).toContain("Instances per region");
+      expect(result.stdout).not.toContain("@param");
+    });
+
+    test("should include descriptions in the JSON manifest", async () => {
+      writeTasks(describedTasks);
+
+      const result = await runCLI("deploy", "--help", "--json");
+      const help = JSON.parse(result.stdout);
+      expect(help.task.details).toBe(
+        "Deploy the app\nBuilds first, then uploads to every region.",
+      );
+      expect(help.task.params[0].description).toBe("Target environment");
+    });
+
+    test("should offer descriptions as completion hints", async () => {
+      writeTasks(describedTasks);
+
+      const tasks = await runCLI("--complete", "--", "de");
+      expect(tasks.stdout.trim()).toBe("deploy\tDeploy the app");
+
+      const flags = await runCLI("--complete", "--", "deploy", "--e");
+      expect(flags.stdout.trim()).toBe("--env\tTarget environment");
+    });
+  });
+
   describe("Rest Parameters", () => {
     test("should handle rest parameters", async () => {
       writeTasks(`
@@ -382,79 +733,1384 @@ export class Tasks {
     });
   });
 
-  describe("Context API Usage", () => {
-    test("should use context to run commands", async () => {
-      writeTasks(`
+  describe("Choice Parameters", () => {
+    const choiceTasks = `
+enum Level {
+  Low,
+  High,
+}
+
 export class Tasks {
-  /** Echo message */
-  async echo(c: Context, message: string) {
-    await c.run(\`echo "\${message}"\`);
+  /** Deploy */
+  async deploy(c: Context, env: "dev" | "staging" | "prod", level: Level = Level.Low) {
+    console.log(\`\${env} \${typeof level} \${level}\`);
   }
 }
-`);
+`;
 
-      const result = await runCLI("echo", "Test Message");
+    test("should accept allowed values", async () => {
+      writeTasks(choiceTasks);
+
+      const result = await runCLI("deploy", "prod", "1");
       expect(result.code).toBe(0);
-      expect(result.stdout).toContain("Test Message");
+      expect(result.stdout).toContain("prod number 1");
     });
 
-    test("should handle command failures", async () => {
+    test("should accept numeric enum members by name", async () => {
+      writeTasks(choiceTasks);
+
+      const result = await runCLI("deploy", "prod", "--level", "High");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("prod number 1");
+    });
+
+    test("should reject other values listing the allowed ones", async () => {
+      writeTasks(choiceTasks);
+
+      const result = await runCLI("deploy", "qa");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain(
+        'Expected one of dev, staging, prod, got "qa"',
+      );
+    });
+
+    test("should show allowed values in task help", async () => {
+      writeTasks(choiceTasks);
+
+      const result = await runCLI("deploy", "-h");
+      expect(result.stdout).toContain("dev|staging|prod");
+      expect(result.stdout).toContain("Low|High");
+    });
+
+    test("should offer allowed values to completion", async () => {
+      writeTasks(choiceTasks);
+
+      const result = await runCLI("--complete", "--", "deploy", "s");
+      expect(result.stdout.split("\n").filter(Boolean)).toEqual(["staging"]);
+
+      const level = await runCLI("--complete", "--", "deploy", "prod", "");
+      const values = level.stdout.split("\n");
+      expect(values).toContain("Low");
+      expect(values).toContain("High");
+    });
+  });
+
+  describe("Typed Arrays", () => {
+    const arrayTasks = `
+export class Tasks {
+  /** Open ports */
+  async open(c: Context, ids: number[], ...ports: number[]) {
+    console.log(JSON.stringify({ ids, ports }));
+  }
+
+  /** Promote environments */
+  async promote(c: Context, ...envs: ("dev" | "prod")[]) {
+    console.log(envs.join(","));
+  }
+}
+`;
+
+    test("should coerce each variadic argument", async () => {
+      writeTasks(arrayTasks);
+
+      const result = await runCLI("open", "[1,2]", "80", "443");
+      expect(result.code).toBe(0);
+      expect(JSON.parse(result.stdout)).toEqual({
+        ids: [1, 2],
+        ports: [80, 443],
+      });
+    });
+
+    test("should report the element that failed", async () => {
+      writeTasks(arrayTasks);
+
+      const bad = await runCLI("open", "[1,2]", "80", "http");
+      expect(bad.code).toBe(1);
+      expect(bad.stderr).toContain('ports[1]: Expected number, got "http"');
+
+      const badJson = await runCLI("open", '[1,"x"]');
+      expect(badJson.code).toBe(1);
+      expect(badJson.stderr).toContain('ids[1]: Expected number, got "x"');
+    });
+
+    test("should validate literal union elements", async () => {
+      writeTasks(arrayTasks);
+
+      const ok = await runCLI("promote", "dev", "prod");
+      expect(ok.stdout.trim()).toBe("dev,prod");
+
+      const bad = await runCLI("promote", "dev", "qa");
+      expect(bad.code).toBe(1);
+      expect(bad.stderr).toContain(
+        'envs[1]: Expected one of dev, prod, got "qa"',
+      );
+    });
+
+    test("should show element types in task help", async () => {
+      writeTasks(arrayTasks);
+
+      const result = await runCLI("open", "-h");
+      expect(result.stdout).toContain("number[]");
+      expect(result.stdout).toContain("number...");
+    });
+  });
+
+  describe("Object Schemas", () => {
+    beforeEach(() => {
+      writeFileSync(
+        join(TEST_DIR, "types.ts"),
+        `export interface SearchParams {
+  query: string;
+  limit?: number;
+}
+`,
+      );
       writeTasks(`
+import type { SearchParams } from "./types";
+
 export class Tasks {
-  /** Fail */
-  async fail(c: Context) {
-    await c.run("exit 1");
+  /** Search */
+  async search(c: Context, params: SearchParams) {
+    console.log(params.query, params.limit ?? "-");
   }
 }
 `);
+    });
 
-      const result = await runCLI("fail");
-      expect(result.code).toBe(1);
+    test("should build objects from dotted field flags", async () => {
+      const result = await runCLI(
+        "search",
+        "--params.query",
+        "bun",
+        "--params.limit",
+        "5",
+      );
+      expect(result.code).toBe(0);
+      expect(result.stdout.trim()).toBe("bun 5");
+
+      const bad = await runCLI("search", "--params.limit", "ten");
+      expect(bad.code).toBe(1);
+      expect(bad.stderr).toContain('params.limit: Expected number, got "ten"');
     });
 
-    test("should use warn option to continue on failure", async () => {
+    test("should accept bare field flags with @flatten", async () => {
       writeTasks(`
+import type { SearchParams } from "./types";
+
 export class Tasks {
-  /** Warn test */
-  async warnTest(c: Context) {
-    await c.run("exit 1", { warn: true });
-    console.log("Continued after failure");
+  /**
+   * Search
+   * @flatten params
+   */
+  async search(c: Context, params: SearchParams) {
+    console.log(params.query, params.limit ?? "-");
+  }
+
+  /** Clean */
+  async clean(c: Context) {
+    console.log("cleaned");
   }
 }
 `);
 
-      const result = await runCLI("warnTest");
+      const result = await runCLI("search", "--query", "bun", "clean");
       expect(result.code).toBe(0);
-      expect(result.stdout).toContain("Continued after failure");
+      expect(result.stdout).toBe("bun -\ncleaned\n");
+    });
+
+    test("should list fields in task help", async () => {
+      const result = await runCLI("search", "-h");
+      expect(result.stdout).toMatch(
+        /query\s+string\s+\(required\)\s+--params\.query/,
+      );
+      expect(result.stdout).toMatch(
+        /limit\s+number\s+\(optional\)\s+--params\.limit/,
+      );
+    });
+
+    test("should pass valid objects through", async () => {
+      const result = await runCLI("search", '{"query":"bun","limit":5}');
+      expect(result.code).toBe(0);
+      expect(result.stdout.trim()).toBe("bun 5");
+    });
+
+    test("should report the field that failed", async () => {
+      const wrongType = await runCLI("search", '{"query":"bun","limit":"ten"}');
+      expect(wrongType.code).toBe(1);
+      expect(wrongType.stderr).toContain(
+        'params.limit: Expected number, got "ten"',
+      );
+
+      const missing = await runCLI("search", '{"limit":5}');
+      expect(missing.code).toBe(1);
+      expect(missing.stderr).toContain("params.query: Missing required string");
     });
   });
 
-  describe("Error Handling", () => {
-    test("should handle missing tasks.ts file", async () => {
-      // Don't create tasks.ts
-      const result = await runCLI("build");
+  describe("File and Stdin Values", () => {
+    const fileTasks = `
+export class Tasks {
+  /** Create a user */
+  async createUser(c: Context, user: { name: string; admin?: boolean }) {
+    console.log(user.name, user.admin ?? false);
+  }
+
+  /** Search a collection */
+  async search(c: Context, collection: string, query: Record<string, unknown>) {
+    console.log(collection, JSON.stringify(query));
+  }
+}
+`;
+
+    test("should read @file values", async () => {
+      writeTasks(fileTasks);
+      writeFileSync(
+        join(TEST_DIR, "user.json"),
+        '{"name": "ada", "admin": true}\n',
+      );
+
+      const result = await runCLI("createUser", "@user.json");
+      expect(result.code).toBe(0);
+      expect(result.stdout.trim()).toBe("ada true");
+    });
+
+    test("should report missing files", async () => {
+      writeTasks(fileTasks);
+
+      const result = await runCLI("createUser", "@missing.json");
       expect(result.code).toBe(1);
-      expect(result.stdout).toContain("No tasks.ts found");
+      expect(result.stderr).toContain("File not found: missing.json");
     });
 
-    test("should handle invalid tasks.ts syntax", async () => {
+    test("should read - from stdin", async () => {
+      writeTasks(fileTasks);
+
+      const payload = Buffer.from('{"q": "bun"}\n');
+      const result = await $`bun ${CLI_PATH} search users - < ${payload}`
+        .cwd(TEST_DIR)
+        .quiet()
+        .nothrow();
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.toString().trim()).toBe('users {"q":"bun"}');
+    });
+  });
+
+  describe("Configuration", () => {
+    const configTasks = `
+export class Tasks {
+  /** Show config */
+  async show(c: Context) {
+    await c.run("echo hi");
+    console.log(JSON.stringify(c.config));
+  }
+}
+`;
+
+    // A home directory inside the test directory, so user config is isolated
+    const homeEnv = {
+      HOME: join(TEST_DIR, "home"),
+      XDG_CONFIG_HOME: join(TEST_DIR, "home/.config"),
+    };
+
+    test("should apply project and user config to the Context", async () => {
+      writeTasks(configTasks);
+      mkdirSync(join(TEST_DIR, "home/.config/invoket"), { recursive: true });
       writeFileSync(
-        join(TEST_DIR, "tasks.ts"),
-        "this is not valid TypeScript {{{",
+        join(TEST_DIR, "home/.config/invoket/invoket.json"),
+        JSON.stringify({ hide: true, owner: "me" }),
+      );
+      writeFileSync(
+        join(TEST_DIR, "invoket.json"),
+        JSON.stringify({ echo: true, bucket: "assets" }),
       );
 
-      const result = await runCLI("build");
-      expect(result.code).not.toBe(0);
+      const result = await runCLI({ env: homeEnv }, "show");
+      expect(result.code).toBe(0);
+      const lines = result.stdout.trim().split("\n");
+      expect(lines[0]).toBe("$ echo hi");
+      expect(JSON.parse(lines[1])).toEqual({
+        hide: true,
+        owner: "me",
+        echo: true,
+        bucket: "assets",
+      });
     });
 
-    test("should handle missing Tasks class export", async () => {
+    test("should let INVOKET_RUN_* variables override files", async () => {
+      writeTasks(configTasks);
       writeFileSync(
-        join(TEST_DIR, "tasks.ts"),
-        `export class NotTasks { async build() {} }`,
+        join(TEST_DIR, "package.json"),
+        JSON.stringify({ invoket: { echo: true } }),
       );
 
-      const result = await runCLI("build");
+      const result = await runCLI(
+        { env: { ...homeEnv, INVOKET_RUN_ECHO: "0" } },
+        "show",
+      );
+      expect(result.code).toBe(0);
+      expect(result.stdout).not.toContain("$ echo hi");
+      expect(result.stdout).toContain("hi");
+    });
+
+    test("should let global flags override config", async () => {
+      mkdirSync(join(TEST_DIR, "sub"));
+      writeFileSync(
+        join(TEST_DIR, "invoket.json"),
+        JSON.stringify({ echo: false, team: "core" }),
+      );
+      writeTasks(`
+export class Tasks {
+  /** Where */
+  async where(c: Context) {
+    await c.run("pwd");
+    await c.run("exit 3");
+    console.log(JSON.stringify(c.config));
+  }
+}
+`);
+
+      const result = await runCLI(
+        { env: homeEnv },
+        "--echo",
+        "--warn",
+        "--cwd",
+        "sub",
+        "where",
+      );
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("$ pwd");
+      expect(result.stdout).toContain(join(TEST_DIR, "sub"));
+      expect(result.stdout).toContain("$ exit 3");
+      expect(JSON.parse(result.stdout.trim().split("\n").pop()!)).toEqual({
+        echo: true,
+        warn: true,
+        cwd: join(TEST_DIR, "sub"),
+        team: "core",
+      });
+
+      const hidden = await runCLI({ env: homeEnv }, "--hide", "where");
+      expect(hidden.code).toBe(1);
+      expect(hidden.stdout).not.toContain(TEST_DIR);
+    });
+
+    test("should let c.cd() move within the --cwd directory", async () => {
+      mkdirSync(join(TEST_DIR, "sub/inner"), { recursive: true });
+      writeTasks(`
+export class Tasks {
+  /** Inner */
+  async inner(c: Context) {
+    for await (const _ of c.cd("inner")) await c.run("pwd");
+    await c.run("pwd");
+  }
+}
+`);
+
+      const result = await runCLI({ env: homeEnv }, "--cwd", "sub", "inner");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toBe(
+        `${join(TEST_DIR, "sub/inner")}\n${join(TEST_DIR, "sub")}\n`,
+      );
+    });
+
+    test("should print commands without running them with --dry", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Deploy */
+  async deploy(c: Context) {
+    const result = await c.run("touch deployed", { env: { STAGE: "prod" } });
+    console.log(\`ok=\${result.ok}\`);
+  }
+}
+`);
+
+      const result = await runCLI({ env: homeEnv }, "--dry", "deploy");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toBe(
+        "[dry] $ touch deployed\n" +
+          `[dry]   cwd: ${TEST_DIR}\n` +
+          "[dry]   env: STAGE=prod\n" +
+          "ok=true\n",
+      );
+      expect(existsSync(join(TEST_DIR, "deployed"))).toBe(false);
+
+      const fromEnv = await runCLI(
+        { env: { ...homeEnv, INVOKET_RUN_DRY: "1" } },
+        "deploy",
+      );
+      expect(fromEnv.stdout).toContain("[dry] $ touch deployed");
+      expect(existsSync(join(TEST_DIR, "deployed"))).toBe(false);
+    });
+
+    test("should reject a missing --cwd directory", async () => {
+      writeTasks(configTasks);
+
+      const result = await runCLI({ env: homeEnv }, "--cwd", "nowhere", "show");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain("Directory not found: nowhere");
+    });
+
+    test("should report invalid configuration", async () => {
+      writeTasks(configTasks);
+      writeFileSync(
+        join(TEST_DIR, "invoket.json"),
+        JSON.stringify({ warn: "sometimes" }),
+      );
+
+      const result = await runCLI({ env: homeEnv }, "show");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain(
+        "Invalid configuration: " +
+          join(TEST_DIR, "invoket.json") +
+          ': warn: Expected boolean, got "sometimes"',
+      );
+
+      for (const flag of ["--help", "--list", "--lint"]) {
+        expect((await runCLI({ env: homeEnv }, flag)).code).toBe(0);
+      }
+    });
+  });
+
+  describe("Environment Variables", () => {
+    const envTasks = `
+export class Tasks {
+  /**
+   * Deploy
+   * @env target DEPLOY_TARGET
+   */
+  async deploy(c: Context, target: string) {
+    console.log(\`deploying to \${target}\`);
+  }
+}
+`;
+
+    test("should fall back to the bound variable", async () => {
+      writeTasks(envTasks);
+
+      const result = await runCLI(
+        { env: { DEPLOY_TARGET: "staging" } },
+        "deploy",
+      );
+      expect(result.code).toBe(0);
+      expect(result.stdout.trim()).toBe("deploying to staging");
+    });
+
+    test("should prefer a positional argument", async () => {
+      writeTasks(envTasks);
+
+      const result = await runCLI(
+        { env: { DEPLOY_TARGET: "staging" } },
+        "deploy",
+        "prod",
+      );
+      expect(result.stdout.trim()).toBe("deploying to prod");
+    });
+
+    test("should show the variable in task help", async () => {
+      writeTasks(envTasks);
+
+      const result = await runCLI("deploy", "-h");
+      expect(result.stdout).toContain("[env: DEPLOY_TARGET]");
+    });
+  });
+
+  describe("Context API Usage", () => {
+    test("should use context to run commands", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Echo message */
+  async echo(c: Context, message: string) {
+    await c.run(\`echo "\${message}"\`);
+  }
+}
+`);
+
+      const result = await runCLI("echo", "Test Message");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("Test Message");
+    });
+
+    test("should handle command failures", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Fail */
+  async fail(c: Context) {
+    await c.run("exit 1");
+  }
+}
+`);
+
+      const result = await runCLI("fail");
+      expect(result.code).toBe(1);
+    });
+
+    test("should use warn option to continue on failure", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Warn test */
+  async warnTest(c: Context) {
+    await c.run("exit 1", { warn: true });
+    console.log("Continued after failure");
+  }
+}
+`);
+
+      const result = await runCLI("warnTest");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("Continued after failure");
+    });
+  });
+
+  describe("Multiple Tasks", () => {
+    const multiTasks = `
+export class Tasks {
+  runs = 0;
+
+  /** Clean */
+  async clean(c: Context) {
+    console.log("step:clean", ++this.runs);
+  }
+
+  /** Build */
+  async build(c: Context, target: string = "dev") {
+    console.log("step:build:" + target, ++this.runs);
+  }
+
+  /** Greet */
+  async greet(c: Context, name: string) {
+    console.log("step:greet:" + name);
+  }
+
+  /** Fail */
+  async fail(c: Context) {
+    throw new Error("failed on purpose");
+  }
+
+  /**
+   * Ship
+   * @depends build
+   */
+  async ship(c: Context) {
+    console.log("step:ship");
+  }
+
+  /** Install */
+  async install(c: Context, ...pkgs: string[]) {
+    console.log("step:install:" + pkgs.join("+"));
+  }
+}
+`;
+
+    function steps(stdout: string) {
+      return stdout.split("\n").filter((line) => line.startsWith("step:"));
+    }
+
+    test("should run several tasks in sequence sharing one instance", async () => {
+      writeTasks(multiTasks);
+
+      const result = await runCLI("clean", "build", "greet", "Ann");
+      expect(result.code).toBe(0);
+      expect(steps(result.stdout)).toEqual([
+        "step:clean 1",
+        "step:build:dev 2",
+        "step:greet:Ann",
+      ]);
+    });
+
+    test("should fill required args before treating a word as a task", async () => {
+      writeTasks(multiTasks);
+
+      const result = await runCLI("greet", "clean", "clean");
+      expect(steps(result.stdout)).toEqual([
+        "step:greet:clean",
+        "step:clean 1",
+      ]);
+    });
+
+    test("should split on comma and keep flags with their task", async () => {
+      writeTasks(multiTasks);
+
+      const result = await runCLI(
+        "build",
+        "--target",
+        "prod",
+        ",",
+        "install",
+        "a",
+        "b",
+        ",",
+        "build",
+        "staging",
+      );
+      expect(result.code).toBe(0);
+      expect(steps(result.stdout)).toEqual([
+        "step:build:prod 1",
+        "step:install:a+b",
+        "step:build:staging 2",
+      ]);
+    });
+
+    test("should run a shared dependency only once", async () => {
+      writeTasks(multiTasks);
+
+      const result = await runCLI("build", "ship");
+      expect(steps(result.stdout)).toEqual(["step:build:dev 1", "step:ship"]);
+    });
+
+    test("should not rerun a dependency that ran with arguments", async () => {
+      writeTasks(multiTasks);
+
+      const result = await runCLI("build", "prod", "ship");
+      expect(result.code).toBe(0);
+      expect(steps(result.stdout)).toEqual(["step:build:prod 1", "step:ship"]);
+    });
+
+    test("should stop on the first failure", async () => {
+      writeTasks(multiTasks);
+
+      const result = await runCLI("clean", "fail", "build");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('Error running "fail"');
+      expect(steps(result.stdout)).toEqual(["step:clean 1"]);
+    });
+
+    test("should continue after failures with --keep-going", async () => {
+      writeTasks(multiTasks);
+
+      const result = await runCLI("--keep-going", "fail", "clean");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('Error running "fail"');
+      expect(steps(result.stdout)).toEqual(["step:clean 1"]);
+    });
+
+    test("should validate all tasks before running any", async () => {
+      writeTasks(multiTasks);
+
+      const result = await runCLI("clean", ",", "nope");
+      expect(result.code).toBe(1);
+      expect(steps(result.stdout)).toEqual([]);
+    });
+  });
+
+  describe("Parallel Tasks", () => {
+    const parallelTasks = `
+export class Tasks {
+  /** Slow */
+  async slow(c: Context) {
+    await c.run("sleep 0.3; echo slow done");
+  }
+
+  /** Fast */
+  async fast(c: Context) {
+    await c.run("echo fast done");
+  }
+
+  /** Broken */
+  async broken(c: Context) {
+    await c.run("exit 3");
+  }
+
+  /**
+   * After slow
+   * @depends slow
+   */
+  async later(c: Context) {
+    await c.run("echo later done");
+  }
+}
+`;
+
+    test("should run tasks concurrently with prefixed output", async () => {
+      writeTasks(parallelTasks);
+
+      const result = await runCLI("--parallel", "slow", "fast");
+      expect(result.code).toBe(0);
+      const lines = result.stdout.trim().split("\n");
+      expect(lines).toEqual(["[fast] fast done", "[slow] slow done"]);
+    });
+
+    test("should prefix a task's own console output", async () => {
+      writeTasks(`
+export class Tasks {
+  /** A */
+  async a(c: Context) {
+    await c.run("echo a1");
+    await new Promise((r) => setTimeout(r, 200));
+    await c.run("echo a2");
+  }
+
+  /** B */
+  async b(c: Context) {
+    await c.run("echo b1");
+    console.log("b console");
+    console.error("b problem");
+  }
+}
+`);
+
+      const result = await runCLI("--parallel", "a", "b");
+      expect(result.code).toBe(0);
+      const lines = result.stdout.trim().split("\n");
+      expect(lines).toContain("[b] b console");
+      expect(lines).not.toContain("b console");
+      expect(result.stderr).toContain("[b] b problem");
+    });
+
+    test("should honour --jobs as a concurrency limit", async () => {
+      writeTasks(parallelTasks);
+
+      const result = await runCLI("--parallel", "-j", "1", "slow", "fast");
+      expect(result.code).toBe(0);
+      const lines = result.stdout.trim().split("\n");
+      expect(lines).toEqual(["[slow] slow done", "[fast] fast done"]);
+    });
+
+    test("should wait for dependencies", async () => {
+      writeTasks(parallelTasks);
+
+      const result = await runCLI("--parallel", "later", "fast");
+      expect(result.code).toBe(0);
+      const lines = result.stdout.trim().split("\n");
+      expect(lines).toEqual([
+        "[fast] fast done",
+        "[slow] slow done",
+        "[later] later done",
+      ]);
+    });
+
+    test("should exit non-zero when any task fails", async () => {
+      writeTasks(parallelTasks);
+
+      const result = await runCLI("--parallel", "broken", "fast");
+      expect(result.code).toBe(1);
+      expect(result.stdout).toContain("[fast] fast done");
+      expect(result.stderr).toContain('Error running "broken"');
+      expect(result.stderr).toContain("1 of 2 tasks failed");
+    });
+
+    test("should reject an invalid --jobs value", async () => {
+      writeTasks(parallelTasks);
+
+      const result = await runCLI("--parallel", "--jobs=0", "fast");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain("Expected a positive integer for --jobs");
+    });
+  });
+
+  describe("Task Dependencies", () => {
+    test("should run dependencies once in topological order", async () => {
+      writeTasks(`
+class DbNamespace {
+  /** Migrate */
+  async migrate(c: Context, direction: string = "up") {
+    console.log("step:migrate:" + direction);
+  }
+}
+
+export class Tasks {
+  db = new DbNamespace();
+
+  /** Build */
+  async build(c: Context) {
+    console.log("step:build");
+  }
+
+  /**
+   * Test
+   * @depends build
+   */
+  async test(c: Context) {
+    console.log("step:test");
+  }
+
+  /**
+   * Deploy
+   * @depends build test db:migrate
+   * @post notify
+   */
+  async deploy(c: Context, env: string) {
+    console.log("step:deploy:" + env);
+  }
+
+  /** Notify */
+  async notify(c: Context) {
+    console.log("step:notify");
+  }
+}
+`);
+
+      const result = await runCLI("deploy", "prod");
+      expect(result.code).toBe(0);
+      const steps = result.stdout
+        .split("\n")
+        .filter((line) => line.startsWith("step:"));
+      expect(steps).toEqual([
+        "step:build",
+        "step:test",
+        "step:migrate:up",
+        "step:deploy:prod",
+        "step:notify",
+      ]);
+    });
+
+    test("should show dependencies in task help", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Build */
+  async build(c: Context) {}
+
+  /**
+   * Release
+   * @depends build
+   * @post build
+   */
+  async release(c: Context) {}
+}
+`);
+
+      const result = await runCLI("release", "--help");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("Depends on: build");
+      expect(result.stdout).toContain("Followed by: build");
+    });
+
+    test("should detect dependency cycles", async () => {
+      writeTasks(`
+export class Tasks {
+  /**
+   * A
+   * @depends b
+   */
+  async a(c: Context) {
+    console.log("ran a");
+  }
+
+  /**
+   * B
+   * @depends a
+   */
+  async b(c: Context) {
+    console.log("ran b");
+  }
+}
+`);
+
+      const result = await runCLI("a");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain("Dependency cycle: a -> b -> a");
+      expect(result.stdout).not.toContain("ran");
+    });
+
+    test("should fail on unknown dependency", async () => {
+      writeTasks(`
+export class Tasks {
+  /**
+   * Deploy
+   * @depends missing
+   */
+  async deploy(c: Context) {}
+}
+`);
+
+      const result = await runCLI("deploy");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain("Unknown task: missing");
+    });
+
+    test("should reject dependencies with required arguments", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Needs a name */
+  async greet(c: Context, name: string) {}
+
+  /**
+   * Welcome
+   * @depends greet
+   */
+  async welcome(c: Context) {
+    console.log("ran welcome");
+  }
+}
+`);
+
+      const result = await runCLI("welcome");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain(
+        'Cannot run dependency "greet" of "welcome"',
+      );
+      expect(result.stdout).not.toContain("ran welcome");
+    });
+
+    test("should stop when a dependency fails", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Broken */
+  async broken(c: Context) {
+    throw new Error("nope");
+  }
+
+  /**
+   * Ship
+   * @depends broken
+   */
+  async ship(c: Context) {
+    console.log("shipped");
+  }
+}
+`);
+
+      const result = await runCLI("ship");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('Error running "broken": nope');
+      expect(result.stdout).not.toContain("shipped");
+    });
+  });
+
+  describe("Tasks Location", () => {
+    function writeTasksFile(path: string, body: string) {
+      const header = `import { Context } from "${CONTEXT_PATH}";\n`;
+      writeFileSync(path, header + body);
+    }
+
+    test("should find tasks.ts in a parent directory", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Where am I */
+  async where(c: Context) {
+    console.log("found root tasks");
+  }
+}
+`);
+      const nested = join(TEST_DIR, "a", "b");
+      mkdirSync(nested, { recursive: true });
+
+      const result = await runCLI({ cwd: nested }, "where");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("found root tasks");
+    });
+
+    test("should load tasks from --file and show the path in help", async () => {
+      const file = join(TEST_DIR, "other.ts");
+      writeTasksFile(
+        file,
+        `
+export class Tasks {
+  /** From other file */
+  async other(c: Context) {
+    console.log("other file");
+  }
+}
+`,
+      );
+
+      const run = await runCLI("--file", "other.ts", "other");
+      expect(run.code).toBe(0);
+      expect(run.stdout).toContain("other file");
+
+      const help = await runCLI("-f", file, "--help");
+      expect(help.code).toBe(0);
+      expect(help.stdout).toContain(`Tasks: ${file}`);
+    });
+
+    test("should load tasks from INVOKET_TASKS", async () => {
+      const file = join(TEST_DIR, "env-tasks.ts");
+      writeTasksFile(
+        file,
+        `
+export class Tasks {
+  /** From env */
+  async fromEnv(c: Context) {
+    console.log("env tasks");
+  }
+}
+`,
+      );
+
+      const result = await runCLI({ env: { INVOKET_TASKS: file } }, "fromEnv");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("env tasks");
+    });
+
+    test("should prefer --file over INVOKET_TASKS", async () => {
+      writeTasksFile(
+        join(TEST_DIR, "a.ts"),
+        `export class Tasks { async which(c: Context) { console.log("a"); } }`,
+      );
+      writeTasksFile(
+        join(TEST_DIR, "b.ts"),
+        `export class Tasks { async which(c: Context) { console.log("b"); } }`,
+      );
+
+      const result = await runCLI(
+        { env: { INVOKET_TASKS: join(TEST_DIR, "a.ts") } },
+        "-f",
+        "b.ts",
+        "which",
+      );
+      expect(result.stdout.trim()).toBe("b");
+    });
+
+    test("should fail clearly when --file does not exist", async () => {
+      const result = await runCLI("-f", "missing.ts", "x");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain("Tasks file not found: missing.ts");
+    });
+
+    test("should load a tasks/ directory as namespaces", async () => {
+      const dir = join(TEST_DIR, "tasks");
+      mkdirSync(dir);
+      writeTasksFile(
+        join(dir, "index.ts"),
+        `
+export class Tasks {
+  /** Root task */
+  async hello(c: Context) {
+    console.log("hello from index");
+  }
+}
+`,
+      );
+      writeTasksFile(
+        join(dir, "db.ts"),
+        `
+export class Tasks {
+  /** Migrate */
+  async migrate(c: Context, steps: number) {
+    console.log("migrating", steps + 1);
+  }
+}
+`,
+      );
+      writeFileSync(join(dir, "_helpers.ts"), `export const x = 1;\n`);
+
+      const list = await runCLI("--list");
+      expect(list.code).toBe(0);
+      expect(list.stdout).toContain("hello");
+      expect(list.stdout).toContain("db:migrate <steps>");
+      expect(list.stdout).not.toContain("_helpers");
+
+      const root = await runCLI("hello");
+      expect(root.stdout).toContain("hello from index");
+
+      const ns = await runCLI("db:migrate", "1");
+      expect(ns.code).toBe(0);
+      expect(ns.stdout).toContain("migrating 2");
+    });
+  });
+
+  describe("JSON Manifest", () => {
+    const jsonTasks = `
+class DbNamespace {
+  /** Migrate */
+  async migrate(c: Context, direction: string = "up") {}
+}
+
+/** Project tasks */
+export class Tasks {
+  db = new DbNamespace();
+
+  /** Say hello */
+  async hello(c: Context, name: string) {}
+}
+`;
+
+    test("should print the task list as JSON", async () => {
+      writeTasks(jsonTasks);
+
+      const result = await runCLI("--list", "--json");
+      expect(result.code).toBe(0);
+      const manifest = JSON.parse(result.stdout);
+      expect(manifest.schemaVersion).toBe(1);
+      expect(manifest.tasksPath).toBe(join(TEST_DIR, "tasks.ts"));
+      expect(manifest.description).toBe("Project tasks");
+      expect(manifest.tasks.map((t: any) => t.command)).toEqual([
+        "hello",
+        "db:migrate",
+      ]);
+    });
+
+    test("should print task help as JSON", async () => {
+      writeTasks(jsonTasks);
+
+      const result = await runCLI("db.migrate", "--help", "--json");
+      expect(result.code).toBe(0);
+      const help = JSON.parse(result.stdout);
+      expect(help.schemaVersion).toBe(1);
+      expect(help.task.command).toBe("db:migrate");
+      expect(help.task.params[0]).toMatchObject({
+        name: "direction",
+        type: "string",
+        required: false,
+        default: '"up"',
+      });
+    });
+  });
+
+  describe("Shell Completion", () => {
+    const completionTasks = `
+class AwsNamespace {
+  /** Deploy */
+  async deploy(c: Context, region: string) {}
+}
+
+class InfraNamespace {
+  aws = new AwsNamespace();
+}
+
+export class Tasks {
+  infra = new InfraNamespace();
+
+  /**
+   * Build
+   * @flag target -t --env
+   */
+  async build(c: Context, target: string, minify: boolean = true) {}
+
+  /** Clean */
+  async clean(c: Context) {}
+}
+`;
+
+    // Candidates without their tab-separated descriptions
+    async function complete(...words: string[]) {
+      const result = await runCLI("--complete", "--", ...words);
+      return result.stdout
+        .split("\n")
+        .filter(Boolean)
+        .map((line) => line.split("\t")[0]);
+    }
+
+    test("should complete task names and namespaces", async () => {
+      writeTasks(completionTasks);
+
+      expect(await complete("")).toEqual([
+        "build",
+        "clean",
+        "infra:aws:deploy",
+      ]);
+      expect(await complete("inf")).toEqual(["infra:aws:deploy"]);
+      expect(await complete("-f", "tasks.ts", "cl")).toEqual(["clean"]);
+    });
+
+    test("should complete global flags", async () => {
+      writeTasks(completionTasks);
+
+      const flags = await complete("--p");
+      expect(flags).toEqual(["--parallel"]);
+    });
+
+    test("should complete task flags including short and aliases", async () => {
+      writeTasks(completionTasks);
+
+      expect(await complete("build", "-")).toEqual([
+        "--target",
+        "-t",
+        "--env",
+        "--minify",
+        "--no-minify",
+        "-h",
+        "--help",
+      ]);
+    });
+
+    test("should complete following tasks after switches", async () => {
+      writeTasks(completionTasks);
+
+      expect(await complete("build", "--minify", "")).toEqual([]);
+      expect(await complete("build", "--minify", "web", "")).toEqual([
+        "build",
+        "clean",
+        "infra:aws:deploy",
+      ]);
+      expect(await complete("build", "web", "")).toEqual([
+        "build",
+        "clean",
+        "infra:aws:deploy",
+      ]);
+      expect(await complete("build", "")).toEqual([]);
+    });
+
+    test("should emit scripts for bash, zsh and fish", async () => {
+      writeTasks(completionTasks);
+
+      for (const shell of ["bash", "zsh", "fish"]) {
+        const result = await runCLI("--completion", shell);
+        expect(result.code).toBe(0);
+        expect(result.stdout).toContain("invt --complete --");
+      }
+
+      const bash = await runCLI("--completion", "bash");
+      const check = await $`bash -n < ${Buffer.from(bash.stdout)}`.nothrow();
+      expect(check.exitCode).toBe(0);
+    });
+
+    test("should reject unknown shells", async () => {
+      const result = await runCLI("--completion", "tcsh");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain("Unsupported shell: tcsh");
+    });
+  });
+
+  describe("Error Handling", () => {
+    test("should handle missing tasks.ts file", async () => {
+      // Don't create tasks.ts
+      const result = await runCLI("build");
+      expect(result.code).toBe(1);
+      expect(result.stdout).toContain("No tasks.ts found");
+    });
+
+    test("should handle invalid tasks.ts syntax", async () => {
+      writeFileSync(
+        join(TEST_DIR, "tasks.ts"),
+        "this is not valid TypeScript {{{",
+      );
+
+      const result = await runCLI("build");
+      expect(result.code).not.toBe(0);
+    });
+
+    test("should handle missing Tasks class export", async () => {
+      writeFileSync(
+        join(TEST_DIR, "tasks.ts"),
+        `export class NotTasks { async build() {} }`,
+      );
+
+      const result = await runCLI("build");
+      expect(result.code).toBe(1);
+    });
+  });
+
+  describe("Undocumented Tasks", () => {
+    test("should list and run undocumented tasks with typed args", async () => {
+      writeTasks(`
+export class Tasks {
+  async add(c: Context, a: number, b: number) {
+    console.log("sum", a + b);
+  }
+}
+`);
+
+      const list = await runCLI("--list");
+      expect(list.stdout).toContain("add <a> <b>");
+
+      const result = await runCLI("add", "2", "3");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("sum 5");
+    });
+
+    test("should show placeholder in task help", async () => {
+      writeTasks(`
+export class Tasks {
+  async bare(c: Context) {}
+}
+`);
+
+      const result = await runCLI("bare", "--help");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("(no description)");
+    });
+
+    test("should warn about undocumented tasks with --lint", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Documented */
+  async good(c: Context) {}
+  async bare(c: Context) {}
+}
+`);
+
+      const result = await runCLI("--lint");
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('task "bare" has no description');
+      expect(result.stderr).not.toContain('"good"');
+    });
+
+    test("should pass --lint when all tasks are documented", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Documented */
+  async good(c: Context) {}
+}
+`);
+
+      const result = await runCLI("--lint");
+      expect(result.code).toBe(0);
+    });
+  });
+
+  describe("Sync and Arrow Tasks", () => {
+    test("should run sync methods with typed args", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Double a number */
+  double(c: Context, n: number) {
+    console.log("result", n * 2);
+  }
+}
+`);
+
+      const result = await runCLI("double", "21");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("result 42");
+    });
+
+    test("should run arrow-function tasks and await their promise", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Wait then print */
+  later = async (c: Context, msg: string) => {
+    await new Promise((r) => setTimeout(r, 10));
+    console.log("later:", msg);
+  };
+}
+`);
+
+      const list = await runCLI("--list");
+      expect(list.stdout).toContain("later <msg>");
+
+      const result = await runCLI("later", "hi");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("later: hi");
+    });
+
+    test("should run arrow-function tasks of imported namespaces", async () => {
+      writeFileSync(
+        join(TEST_DIR, "ns.ts"),
+        `export class Ns {
+  arrow = async () => console.log("arrow ran");
+  async meth() {}
+}
+`,
+      );
+      writeTasks(`
+import { Ns } from "./ns";
+
+export class Tasks {
+  ns = new Ns();
+}
+`);
+
+      const list = await runCLI("--list");
+      expect(list.stdout).toContain("ns:arrow");
+      expect(list.stdout).toContain("ns:meth");
+
+      const result = await runCLI("ns:arrow");
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain("arrow ran");
+    });
+
+    test("should report errors thrown by sync tasks", async () => {
+      writeTasks(`
+export class Tasks {
+  /** Fail */
+  boom(c: Context) {
+    throw new Error("kaboom");
+  }
+}
+`);
+
+      const result = await runCLI("boom");
       expect(result.code).toBe(1);
+      expect(result.stderr).toContain('Error running "boom": kaboom');
     });
   });
 
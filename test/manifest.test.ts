@@ -0,0 +1,129 @@
+import { describe, test, expect } from "bun:test";
+import { discoverAllTasks } from "../src/discovery";
+import {
+  buildManifest,
+  MANIFEST_SCHEMA_VERSION,
+  taskToManifest,
+} from "../src/manifest";
+
+const source = `
+  class Db {
+    /**
+     * Run migrations
+     * Applies pending changes.
+     * @flag direction -d
+     */
+    async migrate(c: Context, direction: "up" | "down" = "up") {}
+  }
+
+  /** Project tasks */
+  export class Tasks {
+    db = new Db();
+
+    /**
+     * Deploy
+     * @param env Target environment
+     * @depends build
+     */
+    async deploy(c: Context, env: string, ...extra: string[]) {}
+
+    async build(c: Context) {}
+  }
+`;
+
+describe("buildManifest", () => {
+  test("describes every task with a schema version", () => {
+    const manifest = buildManifest(discoverAllTasks(source), "/p/tasks.ts");
+
+    expect(manifest.schemaVersion).toBe(MANIFEST_SCHEMA_VERSION);
+    expect(manifest.tasksPath).toBe("/p/tasks.ts");
+    expect(manifest.description).toBe("Project tasks");
+    expect(manifest.tasks.map((t) => t.command)).toEqual([
+      "deploy",
+      "build",
+      "db:migrate",
+    ]);
+  });
+
+  test("uses explicit nulls and empty lists for missing values", () => {
+    const manifest = buildManifest(discoverAllTasks(source), "/p/tasks.ts");
+    const build = manifest.tasks.find((t) => t.command === "build")!;
+
+    expect(build).toEqual({
+      name: "build",
+      command: "build",
+      namespace: null,
+      description: "",
+      details: null,
+      jsdoc: null,
+      depends: [],
+      post: [],
+      params: [],
+    });
+  });
+
+  test("includes params, defaults, flags and rest markers", () => {
+    const manifest = buildManifest(discoverAllTasks(source), "/p/tasks.ts");
+    const deploy = manifest.tasks.find((t) => t.command === "deploy")!;
+
+    expect(deploy.depends).toEqual(["build"]);
+    expect(deploy.params).toEqual([
+      {
+        name: "env",
+        type: "string",
+        required: true,
+        rest: false,
+        elementType: null,
+        choices: null,
+        names: null,
+        schema: null,
+        flatten: false,
+        env: null,
+        exists: false,
+        custom: null,
+        default: null,
+        description: "Target environment",
+        flag: { long: "--env", short: null, aliases: [] },
+      },
+      {
+        name: "extra",
+        type: "array",
+        required: false,
+        rest: true,
+        elementType: "string",
+        choices: null,
+        names: null,
+        schema: null,
+        flatten: false,
+        env: null,
+        exists: false,
+        custom: null,
+        default: null,
+        description: null,
+        flag: null,
+      },
+    ]);
+  });
+});
+
+describe("taskToManifest", () => {
+  test("keeps namespace, full JSDoc, details and default expressions", () => {
+    const meta = discoverAllTasks(source).namespaced.get("db")!.get("migrate")!;
+    const task = taskToManifest("db", "migrate", meta);
+
+    expect(task.command).toBe("db:migrate");
+    expect(task.namespace).toBe("db");
+    expect(task.jsdoc).toBe(
+      "Run migrations\nApplies pending changes.\n@flag direction -d",
+    );
+    expect(task.details).toBe("Run migrations\nApplies pending changes.");
+    expect(task.params[0].type).toBe("choice");
+    expect(task.params[0].choices).toEqual(["up", "down"]);
+    expect(task.params[0].default).toBe('"up"');
+    expect(task.params[0].flag).toEqual({
+      long: "--direction",
+      short: "-d",
+      aliases: [],
+    });
+  });
+});
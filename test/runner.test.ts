@@ -0,0 +1,165 @@
+import { describe, test, expect } from "bun:test";
+import {
+  Context,
+  discoverAllTasks,
+  planTasks,
+  resolveTask,
+  runTask,
+} from "../src/index";
+
+const source = `
+  export class Tasks {
+    db = new Database();
+
+    /** Add two numbers */
+    async add(c: Context, a: number, b: number = 1) {}
+
+    /**
+     * Build after cleaning
+     * @depends clean
+     */
+    build(c: Context) {}
+
+    /** Remove build output */
+    clean(c: Context) {}
+
+    /** Say hello */
+    hello(c: Context, ...names: string[]) {}
+
+    private _secret(c: Context) {}
+  }
+
+  class Database {
+    /** Run migrations */
+    async migrate(c: Context, direction: string = "up") {}
+  }
+`;
+
+function makeTasks(log: string[]) {
+  class Database {
+    async migrate(c: Context, direction: string = "up") {
+      log.push(`migrate ${direction}`);
+      return direction;
+    }
+  }
+
+  return {
+    db: new Database(),
+    async add(c: Context, a: number, b: number = 1) {
+      return a + b;
+    },
+    build(c: Context) {
+      log.push("build");
+    },
+    clean(c: Context) {
+      log.push("clean");
+    },
+    hello(c: Context, ...names: string[]) {
+      return names;
+    },
+    _secret(c: Context) {},
+  };
+}
+
+describe("runTask", () => {
+  test("coerces arguments using discovered types", async () => {
+    const instance = makeTasks([]);
+    const discovered = discoverAllTasks(source);
+    expect(
+      await runTask(instance, "add", ["2", "3"], new Context(), discovered),
+    ).toBe(5);
+    expect(
+      await runTask(instance, "add", ["--a", "4"], new Context(), discovered),
+    ).toBe(5);
+  });
+
+  test("passes arguments as strings without discovered types", async () => {
+    const instance = makeTasks([]);
+    expect(await runTask(instance, "hello", ["a", "b"])).toEqual(["a", "b"]);
+  });
+
+  test("runs namespaced tasks", async () => {
+    const log: string[] = [];
+    const instance = makeTasks(log);
+    const discovered = discoverAllTasks(source);
+    expect(
+      await runTask(
+        instance,
+        "db:migrate",
+        ["down"],
+        new Context(),
+        discovered,
+      ),
+    ).toBe("down");
+    await runTask(instance, "db.migrate", [], new Context(), discovered);
+    expect(log).toEqual(["migrate down", "migrate up"]);
+  });
+
+  test("finds namespaces at runtime", async () => {
+    const log: string[] = [];
+    expect(await runTask(makeTasks(log), "db:migrate", ["down"])).toBe("down");
+    expect(log).toEqual(["migrate down"]);
+  });
+
+  test("runs dependencies first", async () => {
+    const log: string[] = [];
+    const discovered = discoverAllTasks(source);
+    await runTask(makeTasks(log), "build", [], new Context(), discovered);
+    expect(log).toEqual(["clean", "build"]);
+  });
+
+  test("throws on invalid arguments", async () => {
+    const discovered = discoverAllTasks(source);
+    await expect(
+      runTask(makeTasks([]), "add", ["two"], new Context(), discovered),
+    ).rejects.toThrow('Expected number, got "two"');
+    await expect(
+      runTask(makeTasks([]), "add", [], new Context(), discovered),
+    ).rejects.toThrow("Missing required argument: <a> (number)");
+  });
+
+  test("throws on unknown and private tasks", async () => {
+    const discovered = discoverAllTasks(source);
+    await expect(
+      runTask(makeTasks([]), "nope", [], new Context(), discovered),
+    ).rejects.toThrow("Unknown task: nope");
+    await expect(
+      runTask(makeTasks([]), "_secret", [], new Context(), discovered),
+    ).rejects.toThrow('Cannot call private method "_secret"');
+  });
+});
+
+describe("planTasks", () => {
+  test("orders dependencies and runs each once", () => {
+    const instance = makeTasks([]);
+    const discovered = discoverAllTasks(source);
+    const lookup = (name: string) => resolveTask(name, instance, discovered);
+
+    const plan = planTasks(
+      [
+        { task: lookup("build"), argv: [] },
+        { task: lookup("clean"), argv: [] },
+      ],
+      lookup,
+    );
+    expect(plan.map((step) => step.task.command)).toEqual(["clean", "build"]);
+    expect(plan[0].dependencyOf).toBe("build");
+    expect(plan[1].after).toEqual([plan[0].key]);
+  });
+
+  test("treats a dependency as done once the task ran with any arguments", () => {
+    const instance = makeTasks([]);
+    const discovered = discoverAllTasks(source);
+    const lookup = (name: string) => resolveTask(name, instance, discovered);
+
+    const plan = planTasks(
+      [
+        { task: lookup("clean"), argv: ["--all"] },
+        { task: lookup("build"), argv: [] },
+      ],
+      lookup,
+    );
+    expect(plan.map((step) => step.task.command)).toEqual(["clean", "build"]);
+    expect(plan[1].after).toEqual([plan[0].key]);
+  });
+});